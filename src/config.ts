@@ -4,6 +4,9 @@ import { LogLevel } from './types/types.js';
 const toInt = (v: string | undefined, d: number) =>
   v ? Number.parseInt(v, 10) : d;
 
+const toList = (v: string | undefined) =>
+  (v ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+
 export const cfg = {
   /** API KEY Obligatory for FoundryVTT Module link */
   API_KEY: process.env.MCP_SERVER_API_KEY,
@@ -14,6 +17,19 @@ export const cfg = {
   CLIENT_CLEANUP_INTERVAL_MS: toInt(process.env.CLIENT_CLEANUP_INTERVAL_MS, 15_000),
   CORS_URL: process.env.CORS_URL ?? `*`,
   DB_TYPE: process.env.DB_TYPE ?? 'memory',
+  /** Max buffered events per live-event subscription (oldest dropped first) */
+  EVENT_BUFFER_SIZE: toInt(process.env.EVENT_BUFFER_SIZE, 200),
+  /** Max live-event subscriptions per caller (all callers are `anonymous` when OAuth is off) */
+  EVENT_MAX_SUBSCRIPTIONS: toInt(process.env.EVENT_MAX_SUBSCRIPTIONS, 5),
+  EVENT_SUBSCRIPTION_TTL_MS: toInt(process.env.EVENT_SUBSCRIPTION_TTL_MS, 30 * 60 * 1000),
+  /** OAuth logins allowed to use execute-js (comma separated, empty = disabled, `anonymous` when OAuth is off) */
+  EXECUTE_JS_ALLOWED_CALLERS: toList(process.env.EXECUTE_JS_ALLOWED_CALLERS),
+  EXECUTE_JS_AUDIT_LOG: process.env.EXECUTE_JS_AUDIT_LOG ?? './logs/execute-js-audit.jsonl',
+  EXECUTE_JS_CONFIRM_TIMEOUT_MS: toInt(process.env.EXECUTE_JS_CONFIRM_TIMEOUT_MS, 120_000),
+  /** Force GM confirmation in Foundry before every execute-js script */
+  EXECUTE_JS_REQUIRE_CONFIRMATION: process.env.EXECUTE_JS_REQUIRE_CONFIRMATION === 'true',
+  /** Max file size (bytes) for MCP file upload/download */
+  FILE_MAX_BYTES: toInt(process.env.FILE_MAX_BYTES, 10 * 1024 * 1024),
   FOUNDRY_DATA_PATH: process.env.FOUNDRY_DATA_PATH ?? '',
   GH_PROJECT: process.env.GH_PROJECT,
   GH_TAG: process.env.GH_TAG,
@@ -31,6 +47,8 @@ export const cfg = {
   IMAGE_PATH: process.env.IMAGE_PATH ?? '/img', 
   INSTANCE_ID: process.env.FLY_ALLOC_ID ?? 'local',
   LOG_LEVEL: (process.env.LOG_LEVEL as LogLevel | undefined) ?? LogLevel.INFO,
+  /** Macro UUIDs the MCP tools may execute (comma separated, empty = none) */
+  MACRO_ALLOWLIST: toList(process.env.MACRO_ALLOWLIST),
   MCP_PATH: process.env.MCP_PATH ?? '/sse',
   MODULE_VERSION: process.env.MODULE_VERSION ?? '1.0.0',
   NODE_ENV: process.env.NODE_ENV ?? 'development',
@@ -179,4 +179,43 @@ export class Client {
   public markDisconnected(): void {
     this.connected = false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 연결된 Foundry 월드 정보 (LLM이 clientId를 고를 수 있도록 노출하는 형태).
+ *
+ * @property clientId        relay에 등록된 Foundry 클라이언트 ID
+ * @property worldId         월드 ID
+ * @property worldTitle      월드 제목
+ * @property customName      모듈 설정의 사용자 지정 이름
+ * @property systemId        게임 시스템 ID (dnd5e, pf2e 등)
+ * @property systemTitle     게임 시스템 이름
+ * @property systemVersion   게임 시스템 버전
+ * @property foundryVersion  Foundry 코어 버전
+ * @property lastSeen        마지막 수신 시각 (ISO 8601)
+ */
+export type ClientInfo = {
+  clientId: string;
+  worldId: string | null;
+  worldTitle: string | null;
+  customName: string | null;
+  systemId: string | null;
+  systemTitle: string | null;
+  systemVersion: string | null;
+  foundryVersion: string | null;
+  lastSeen: string;
+};
+
+export function describeClient(client: Client): ClientInfo {
+  return {
+    clientId: client.getId(),
+    worldId: client.getWorldId(),
+    worldTitle: client.getWorldTitle(),
+    customName: client.getCustomName(),
+    systemId: client.getSystemId(),
+    systemTitle: client.getSystemTitle(),
+    systemVersion: client.getSystemVersion(),
+    foundryVersion: client.getFoundryVersion(),
+    lastSeen: new Date(client.getLastSeen()).toISOString(),
+  };
+}
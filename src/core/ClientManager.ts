@@ -3,6 +3,7 @@ import { WebSocket } from "ws";
 import { log } from "../utils/logger.js";
 import { Client } from "../core/Client.js";
 import { cfg } from "../config.js";
+import { EventHub } from "./EventHub.js";
 
 type MessageHandler = (client: Client, message: any) => void;
 
@@ -147,6 +148,19 @@ export class ClientManager {
     return localClients;
   }
 
+  /**
+   * Find connected clients for an API key by world ID, world title or custom name (case-insensitive)
+   */
+  static async findClientsByName(apiKey: string, name: string): Promise<Client[]> {
+    const needle = name.trim().toLowerCase();
+    const ids = await this.getConnectedClients(apiKey);
+
+    return ids
+      .map(id => this.clients.get(id)!)
+      .filter(client => [client.getWorldId(), client.getWorldTitle(), client.getCustomName()]
+        .some(value => value?.toLowerCase() === needle));
+  }
+
   /**
    * Update client's last seen timestamp
    */
@@ -232,7 +246,8 @@ export class ClientManager {
         return;
       }
 
-      // Broadcast other messages
+      // Forward pushed events to live subscriptions, then broadcast other messages
+      EventHub.publish(clientId, message);
       this.broadcastToGroup(clientId, message);
     } catch (error) {
       log.error('Error handling message', {
@@ -0,0 +1,170 @@
+// src/core/EventHub.ts
+import { randomUUID } from "crypto";
+import { log } from "../utils/logger.js";
+import { cfg } from "../config.js";
+
+/**
+ * Event pushed by a Foundry client without a pending request (chat, combat, token updates...).
+ */
+export type FoundryEvent = {
+  sequence: number;
+  type: string;
+  clientId: string;
+  receivedAt: string;
+  data: any;
+};
+
+export type EventFilter = {
+  clientIds?: string[];
+  types?: string[];
+};
+
+export type EventSubscription = {
+  id: string;
+  owner: string;
+  filter: EventFilter;
+  createdAt: number;
+  lastAccess: number;
+  dropped: number;
+  buffer: FoundryEvent[];
+};
+
+export type EventSubscriptionInfo = Omit<EventSubscription, 'buffer'> & { buffered: number };
+
+type EventListener = (event: FoundryEvent) => void;
+
+export class EventHub {
+  private static subscriptions = new Map<string, EventSubscription>();
+  private static listeners = new Map<string, Set<EventListener>>();
+  private static sequence = 0;
+
+  /**
+   * Create a subscription owned by the given caller
+   * @throws When the caller already holds EVENT_MAX_SUBSCRIPTIONS subscriptions
+   */
+  static subscribe(owner: string, filter: EventFilter): EventSubscriptionInfo {
+    const owned = Array.from(this.subscriptions.values()).filter(subscription => subscription.owner === owner);
+    if (owned.length >= cfg.EVENT_MAX_SUBSCRIPTIONS) {
+      throw {
+        error: `Subscription limit reached (${cfg.EVENT_MAX_SUBSCRIPTIONS}); unsubscribe first`,
+        subscriptions: owned.map(subscription => subscription.id),
+      };
+    }
+
+    const now = Date.now();
+    const subscription: EventSubscription = {
+      id: randomUUID(),
+      owner,
+      filter,
+      createdAt: now,
+      lastAccess: now,
+      dropped: 0,
+      buffer: [],
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    log.info(`Event subscription ${subscription.id} created for ${owner}`);
+    return this.describe(subscription);
+  }
+
+  /**
+   * Remove a subscription and close its live listeners
+   */
+  static unsubscribe(owner: string, id: string): boolean {
+    const subscription = this.getOwned(owner, id);
+    if (!subscription) return false;
+
+    this.subscriptions.delete(id);
+    this.listeners.delete(id);
+    log.info(`Event subscription ${id} removed`);
+    return true;
+  }
+
+  /**
+   * Get a subscription if it exists and belongs to the caller
+   */
+  static getOwned(owner: string, id: string): EventSubscription | null {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription || subscription.owner !== owner) return null;
+    subscription.lastAccess = Date.now();
+    return subscription;
+  }
+
+  static describe(subscription: EventSubscription): EventSubscriptionInfo {
+    const { buffer, ...info } = subscription;
+    return { ...info, buffered: buffer.length };
+  }
+
+  /**
+   * Take buffered events out of a subscription, oldest first
+   */
+  static drain(owner: string, id: string, max: number): FoundryEvent[] | null {
+    const subscription = this.getOwned(owner, id);
+    if (!subscription) return null;
+    return subscription.buffer.splice(0, max);
+  }
+
+  /**
+   * Attach a live listener (SSE stream); events still go to the buffer until drained
+   * @returns Function that detaches the listener
+   */
+  static listen(id: string, listener: EventListener): () => void {
+    if (!this.listeners.has(id)) {
+      this.listeners.set(id, new Set());
+    }
+    this.listeners.get(id)!.add(listener);
+    return () => {
+      this.listeners.get(id)?.delete(listener);
+    };
+  }
+
+  /**
+   * Fan a Foundry-pushed message out to every matching subscription
+   */
+  static publish(clientId: string, message: any): void {
+    if (!message?.type || this.subscriptions.size === 0) return;
+
+    const event: FoundryEvent = {
+      sequence: ++this.sequence,
+      type: message.type,
+      clientId,
+      receivedAt: new Date().toISOString(),
+      data: message.data ?? message,
+    };
+
+    for (const subscription of this.subscriptions.values()) {
+      const { clientIds, types } = subscription.filter;
+      if (clientIds?.length && !clientIds.includes(clientId)) continue;
+      if (types?.length && !types.includes(event.type)) continue;
+
+      subscription.buffer.push(event);
+      // 오래된 이벤트부터 버리고 몇 개를 놓쳤는지 기록한다
+      if (subscription.buffer.length > cfg.EVENT_BUFFER_SIZE) {
+        subscription.dropped += subscription.buffer.length - cfg.EVENT_BUFFER_SIZE;
+        subscription.buffer.splice(0, subscription.buffer.length - cfg.EVENT_BUFFER_SIZE);
+      }
+
+      for (const listener of this.listeners.get(subscription.id) ?? []) {
+        try {
+          listener(event);
+        } catch (error) {
+          log.error(`Error in event listener for subscription ${subscription.id}: ${error}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Drop subscriptions nobody has read or streamed for longer than the TTL
+   */
+  static cleanupExpiredSubscriptions(): void {
+    const now = Date.now();
+    for (const [id, subscription] of this.subscriptions.entries()) {
+      const streaming = (this.listeners.get(id)?.size ?? 0) > 0;
+      if (!streaming && now - subscription.lastAccess > cfg.EVENT_SUBSCRIPTION_TTL_MS) {
+        log.info(`Removing idle event subscription ${id}`);
+        this.subscriptions.delete(id);
+        this.listeners.delete(id);
+      }
+    }
+  }
+}
@@ -72,6 +72,13 @@ export const authenticateMCP: RequestHandler = (req, res, next) => {
 
     (req as any).token = token;
     (req as any).user = match.user;
+    // MCP SDK가 tool 핸들러의 extra.authInfo로 전달하는 필드
+    (req as any).auth = {
+        token,
+        clientId: String(match.user?.login ?? 'unknown'),
+        scopes: String(match.scope ?? '').split(/[\s,]+/).filter(Boolean),
+        extra: { user: match.user },
+    };
     return next();
 };
 
@@ -8,6 +8,24 @@ import { registerSearchTools } from './api/search.js';
 import { registerChatMsgTools } from './api/chatMsg.js';
 import { registerJournalTools } from './api/journal.js';
 import { registerRelaySelfTools } from './api/realySelf.js';
+import { registerClientTools } from './api/clients.js';
+import { registerCombatTools } from './api/combat.js';
+import { registerDiceTools } from './api/dice.js';
+import { registerActorTools } from './api/actor.js';
+import { registerActorActionTools } from './api/actorActions.js';
+import { registerHealthTools } from './api/health.js';
+import { registerDocumentTools } from './api/documents.js';
+import { registerMacroTools } from './api/macros.js';
+import { registerExecuteJsTools } from './api/executeJs.js';
+import { registerFileTools } from './api/files.js';
+import { registerTokenTools } from './api/tokens.js';
+import { registerSceneTools } from './api/scenes.js';
+import { registerAudioTools } from './api/audio.js';
+import { registerRollTableTools } from './api/rollTables.js';
+import { registerCompendiumTools } from './api/compendium.js';
+import { registerEffectTools } from './api/effects.js';
+import { registerUserTools } from './api/users.js';
+import { registerEventRoutes, registerEventTools } from './api/events.js';
 
 export const VERSION = '2.0.13';
 
@@ -23,6 +41,25 @@ export const apiRoutes = (app: express.Application, server: McpServer): void =>
     registerChatMsgTools(server);
     registerJournalTools(server);
     registerRelaySelfTools(server);
+    registerClientTools(server);
+    registerCombatTools(server);
+    registerDiceTools(server);
+    registerActorTools(server);
+    registerActorActionTools(server);
+    registerHealthTools(server);
+    registerDocumentTools(server);
+    registerMacroTools(server);
+    registerExecuteJsTools(server);
+    registerFileTools(server);
+    registerTokenTools(server);
+    registerSceneTools(server);
+    registerAudioTools(server);
+    registerRollTableTools(server);
+    registerCompendiumTools(server);
+    registerEffectTools(server);
+    registerUserTools(server);
+    registerEventTools(server);
+    registerEventRoutes(app);
 
 
     // Setup WebSocket message handlers to route responses back to API requests
@@ -130,10 +167,11 @@ export const apiRoutes = (app: express.Application, server: McpServer): void =>
         setInterval(() => {
             const now = Date.now();
             for (const [requestId, request] of pendingRequests.entries()) {
-                // Remove requests older than 30 seconds
-                if (now - request.timestamp > 30000) {
+                // Remove requests older than 30 seconds (or their own longer timeout)
+                if (now - request.timestamp > Math.max(30000, request.timeout ?? 0)) {
                     log.warn(`Request ${requestId} timed out and was never completed`);
                     pendingRequests.delete(requestId);
+                    request.reject?.(new Error('Request timed out'));
                 }
             }
         }, 10000);
@@ -0,0 +1,213 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { sendClientRequest } from '../route-helpers.js';
+import { z } from 'zod';
+
+export const ACTOR_SECTIONS = ['attributes', 'items', 'spells', 'effects'] as const;
+export type ActorSection = typeof ACTOR_SECTIONS[number];
+
+/**
+ * 액터가 가진 아이템/주문의 요약.
+ *
+ * @property id        아이템 ID
+ * @property name      아이템 이름
+ * @property type      아이템 타입 (weapon, spell, feat 등 시스템 정의)
+ * @property quantity  수량 (있을 때)
+ * @property equipped  장착 여부 (있을 때)
+ * @property uses      남은 사용 횟수 (있을 때)
+ * @property level     주문 레벨 (있을 때)
+ */
+export type ActorItemSummary = {
+    id: string;
+    name: string;
+    type: string;
+    quantity?: number;
+    equipped?: boolean;
+    uses?: { value?: number | null; max?: number | string | null };
+    level?: number;
+};
+
+export type ActorEffectSummary = {
+    id: string;
+    name: string;
+    disabled: boolean;
+    statuses?: string[];
+};
+
+/**
+ * 직렬화된 Actor 상세 정보 (sections 필터 적용 후).
+ *
+ * @property uuid        Actor UUID
+ * @property name        Actor 이름
+ * @property type        Actor 타입 (character, npc 등)
+ * @property img         초상화 경로
+ * @property attributes  system.attributes / abilities / details 등 시스템 데이터
+ * @property items       spell을 제외한 아이템 목록
+ * @property spells      spell 타입 아이템 목록
+ * @property effects     적용 중인 ActiveEffect 목록
+ */
+export type ActorDetails = {
+    uuid: string;
+    name: string;
+    type: string;
+    img?: string | null;
+    attributes?: Record<string, unknown>;
+    items?: ActorItemSummary[] | Record<string, unknown>[];
+    spells?: ActorItemSummary[] | Record<string, unknown>[];
+    effects?: ActorEffectSummary[] | Record<string, unknown>[];
+};
+
+/** summary 모드에서 유지할 system 데이터 키 */
+const SUMMARY_SYSTEM_KEYS = ['attributes', 'abilities', 'details', 'skills', 'saves', 'resources', 'currency', 'spells'];
+const SUMMARY_MAX_DEPTH = 3;
+const SUMMARY_MAX_STRING = 200;
+
+/**
+ * Drops nesting below `depth` and truncates long strings (HTML biographies etc.) so system data stays compact.
+ * @param value Arbitrary serialized system data.
+ * @param depth Remaining nesting levels to keep.
+ * @returns Pruned copy of the value, or undefined when nothing useful remains.
+ */
+function pruneData(value: unknown, depth: number): unknown {
+    if (value === null || value === undefined) return undefined;
+    if (typeof value === 'string') {
+        return value.length > SUMMARY_MAX_STRING ? `${value.slice(0, SUMMARY_MAX_STRING)}…` : value;
+    }
+    if (typeof value !== 'object') return value;
+    if (depth <= 0) return undefined;
+    if (Array.isArray(value)) {
+        return value.map(item => pruneData(item, depth - 1)).filter(item => item !== undefined);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, inner] of Object.entries(value)) {
+        const pruned = pruneData(inner, depth - 1);
+        if (pruned !== undefined) result[key] = pruned;
+    }
+    return Object.keys(result).length ? result : undefined;
+}
+
+function summarizeItem(item: any): ActorItemSummary {
+    const system = item?.system ?? {};
+    const summary: ActorItemSummary = {
+        id: item?._id ?? item?.id,
+        name: item?.name,
+        type: item?.type,
+    };
+    if (typeof system.quantity === 'number') summary.quantity = system.quantity;
+    if (typeof system.equipped === 'boolean') summary.equipped = system.equipped;
+    if (system.uses && (system.uses.max || system.uses.value)) {
+        summary.uses = { value: system.uses.value ?? null, max: system.uses.max ?? null };
+    }
+    if (typeof system.level === 'number') summary.level = system.level;
+    return summary;
+}
+
+function summarizeEffect(effect: any): ActorEffectSummary {
+    return {
+        id: effect?._id ?? effect?.id,
+        name: effect?.name ?? effect?.label,
+        disabled: Boolean(effect?.disabled),
+        statuses: Array.isArray(effect?.statuses) ? effect.statuses : undefined,
+    };
+}
+
+/**
+ * Builds the tool result from a raw serialized actor, applying the section filter and summary compaction.
+ * @param raw Actor data returned by the Foundry client.
+ * @param sections Sections to include.
+ * @param summary Whether to compact system data and embedded documents.
+ * @returns Filtered actor details.
+ */
+function buildActorDetails(raw: any, sections: readonly ActorSection[], summary: boolean): ActorDetails {
+    const actor = raw?.actor ?? raw;
+    const items: any[] = Array.isArray(actor?.items) ? actor.items : [];
+    const effects: any[] = Array.isArray(actor?.effects) ? actor.effects : [];
+
+    const details: ActorDetails = {
+        uuid: actor?.uuid ?? (actor?._id ? `Actor.${actor._id}` : ''),
+        name: actor?.name,
+        type: actor?.type,
+        img: actor?.img ?? null,
+    };
+
+    if (sections.includes('attributes')) {
+        const system = actor?.system ?? {};
+        details.attributes = summary
+            ? pruneData(
+                Object.fromEntries(SUMMARY_SYSTEM_KEYS.filter(key => key in system).map(key => [key, system[key]])),
+                SUMMARY_MAX_DEPTH + 1
+            ) as Record<string, unknown> ?? {}
+            : system;
+    }
+    if (sections.includes('items')) {
+        const nonSpells = items.filter(item => item?.type !== 'spell');
+        details.items = summary ? nonSpells.map(summarizeItem) : nonSpells;
+    }
+    if (sections.includes('spells')) {
+        const spells = items.filter(item => item?.type === 'spell');
+        details.spells = summary ? spells.map(summarizeItem) : spells;
+    }
+    if (sections.includes('effects')) {
+        details.effects = summary ? effects.map(summarizeEffect) : effects;
+    }
+    return details;
+}
+
+export function registerActorTools(server: McpServer): void {
+    const detailArgs = {
+        ...baseArgs,
+        uuid: z.string().optional().describe('Actor UUID, e.g. Actor.abc123'),
+        name: z.string().optional().describe('Actor name, used when uuid is not known'),
+        sections: z.array(z.enum(ACTOR_SECTIONS)).nonempty().optional().describe('Defaults to all sections'),
+        summary: z.boolean().optional().default(true).describe('Compact system data and embedded documents'),
+    };
+
+    server.registerTool(
+        'actor-details',
+        {
+            title: 'Get Actor Details',
+            description: 'Fetch an actor (character sheet data) by UUID or name, optionally limited to attributes, items, spells or effects',
+            inputSchema: detailArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe actor details',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, uuid, name, sections, summary } = args;
+            if (!uuid && !name) {
+                return formatToolError(new Error('Either uuid or name must be provided'), clientId);
+            }
+
+            const selectedSections = sections ?? ACTOR_SECTIONS;
+            const payload: Record<string, any> = { sections: selectedSections };
+            if (uuid) payload.uuid = uuid;
+            if (name) payload.name = name;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'get-actor-details',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: buildActorDetails(response.data, selectedSections, summary ?? true)
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
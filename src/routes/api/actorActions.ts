@@ -0,0 +1,297 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { resolveClient, sendClientRequest } from '../route-helpers.js';
+import { Client } from '../../core/Client.js';
+import { z } from 'zod';
+
+/** 시스템별로 지원 여부가 갈리는 액터 동작 */
+export type ActorActionCapability =
+    | 'use-ability' | 'use-feature' | 'use-spell' | 'use-item'
+    | 'spell-slots' | 'item-charges' | 'inventory' | 'experience';
+
+const DND5E_STYLE_ACTIONS: readonly ActorActionCapability[] = [
+    'use-ability', 'use-feature', 'use-spell', 'use-item',
+    'spell-slots', 'item-charges', 'inventory', 'experience',
+];
+
+/**
+ * systemId → 지원 동작 목록. 목록에 없는 시스템은 '*' 항목으로 처리한다.
+ * use-* 계열은 Foundry 모듈이 시스템별 item.use() 구현에 위임하므로 검증된 시스템만 허용.
+ */
+const SYSTEM_ACTION_SUPPORT: Record<string, readonly ActorActionCapability[]> = {
+    'dnd5e': DND5E_STYLE_ACTIONS,
+    'sw5e': DND5E_STYLE_ACTIONS,
+    'a5e': DND5E_STYLE_ACTIONS,
+    'pf2e': ['use-item', 'item-charges', 'inventory', 'experience'],
+    '*': ['inventory'],
+};
+
+/**
+ * Throws a structured "unsupported system" error when the client's game system cannot perform the capability.
+ * @param client Resolved Foundry client.
+ * @param capability Action the tool is about to request.
+ */
+function assertSystemSupport(client: Client, capability: ActorActionCapability): void {
+    const systemId = client.getSystemId() ?? 'unknown';
+    const supported = SYSTEM_ACTION_SUPPORT[systemId] ?? SYSTEM_ACTION_SUPPORT['*'];
+    if (supported.includes(capability)) return;
+
+    throw {
+        error: `Unsupported system: '${capability}' is not available for game system '${systemId}'`,
+        clientId: client.getId(),
+        systemId,
+        supportedActions: supported,
+        supportedSystems: Object.keys(SYSTEM_ACTION_SUPPORT)
+            .filter(id => id !== '*' && SYSTEM_ACTION_SUPPORT[id].includes(capability)),
+    };
+}
+
+export type ActorActionResult = {
+    actorUuid: string;
+    itemUuid?: string;
+    itemName?: string;
+    chatMessageId?: string | null;
+    [key: string]: unknown;
+};
+
+export function registerActorActionTools(server: McpServer): void {
+    const itemRefArgs = {
+        actorUuid: z.string().describe('Actor UUID'),
+        itemUuid: z.string().optional().describe('Embedded item UUID'),
+        itemName: z.string().optional().describe('Embedded item name, used when itemUuid is not known'),
+    };
+
+    const useArgs = {
+        ...baseArgs,
+        ...itemRefArgs,
+        kind: z.enum(['ability', 'feature', 'spell', 'item']),
+        targetUuids: z.array(z.string()).optional().describe('Token UUIDs to target'),
+        spellLevel: z.number().int().min(0).max(9).optional().describe('Cast at this spell slot level (spell-slot systems only)'),
+        consumeSlot: z.boolean().optional().describe('Consume a spell slot (spell-slot systems only)'),
+    };
+
+    const chargesArgs = {
+        ...baseArgs,
+        ...itemRefArgs,
+        amount: z.number().int().describe('Change in remaining uses, negative to spend'),
+    };
+
+    const inventoryArgs = {
+        ...baseArgs,
+        action: z.enum(['add', 'remove']),
+        actorUuid: z.string().describe('Actor UUID'),
+        itemUuid: z.string().optional().describe('Source item UUID (world or compendium) to add, or embedded item UUID to remove'),
+        itemName: z.string().optional().describe('Item name, used when itemUuid is not known'),
+        quantity: z.number().int().positive().optional().default(1),
+    };
+
+    const experienceArgs = {
+        ...baseArgs,
+        actorUuid: z.string().describe('Actor UUID'),
+        amount: z.number().int().describe('Experience to add, negative to subtract'),
+    };
+
+    server.registerTool(
+        'actor-use',
+        {
+            title: 'Use Actor Ability, Feature, Spell or Item',
+            description: 'Activate an ability, feature, spell or item owned by an actor (posts its chat card and applies consumption)',
+            inputSchema: useArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Actor item use',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, actorUuid, itemUuid, itemName, kind, targetUuids, spellLevel, consumeSlot } = args;
+            if (!itemUuid && !itemName) {
+                return formatToolError(new Error('Either itemUuid or itemName must be provided'), clientId);
+            }
+
+            const type = `use-${kind}` as const;
+            const payload: Record<string, any> = { actorUuid };
+            if (itemUuid) payload.itemUuid = itemUuid;
+            if (itemName) payload.itemName = itemName;
+            if (targetUuids?.length) payload.targetUuids = targetUuids;
+
+            try {
+                const client = await resolveClient(clientId);
+                assertSystemSupport(client, type);
+                if (typeof spellLevel === 'number' || typeof consumeSlot === 'boolean') {
+                    if (kind !== 'spell') {
+                        throw new Error('spellLevel and consumeSlot only apply to kind "spell"');
+                    }
+                    assertSystemSupport(client, 'spell-slots');
+                    if (typeof spellLevel === 'number') payload.spellLevel = spellLevel;
+                    if (typeof consumeSlot === 'boolean') payload.consumeSlot = consumeSlot;
+                }
+
+                const response = await sendClientRequest({
+                    type,
+                    clientId: client.getId(),
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as ActorActionResult
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'actor-item-charges',
+        {
+            title: 'Modify Item Charges',
+            description: 'Spend or restore limited uses on an actor item',
+            inputSchema: chargesArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Item charges mutation',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, actorUuid, itemUuid, itemName, amount } = args;
+            if (!itemUuid && !itemName) {
+                return formatToolError(new Error('Either itemUuid or itemName must be provided'), clientId);
+            }
+
+            const payload: Record<string, any> = { actorUuid, amount };
+            if (itemUuid) payload.itemUuid = itemUuid;
+            if (itemName) payload.itemName = itemName;
+
+            try {
+                const client = await resolveClient(clientId);
+                assertSystemSupport(client, 'item-charges');
+
+                const response = await sendClientRequest({
+                    type: 'modify-item-charges',
+                    clientId: client.getId(),
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as ActorActionResult
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'actor-inventory',
+        {
+            title: 'Add or Remove Actor Item',
+            description: 'Add an item to an actor from a world/compendium item, or remove an owned item',
+            inputSchema: inventoryArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Actor inventory mutation',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, action, actorUuid, itemUuid, itemName, quantity } = args;
+            if (!itemUuid && !itemName) {
+                return formatToolError(new Error('Either itemUuid or itemName must be provided'), clientId);
+            }
+
+            const payload: Record<string, any> = { actorUuid, quantity };
+            if (itemUuid) payload.itemUuid = itemUuid;
+            if (itemName) payload.itemName = itemName;
+
+            try {
+                const client = await resolveClient(clientId);
+                assertSystemSupport(client, 'inventory');
+
+                const response = await sendClientRequest({
+                    type: action === 'add' ? 'add-item' : 'remove-item',
+                    clientId: client.getId(),
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as ActorActionResult
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'actor-experience',
+        {
+            title: 'Modify Actor Experience',
+            description: 'Award or remove experience points on an actor',
+            inputSchema: experienceArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Experience mutation',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, actorUuid, amount } = args;
+            const payload: Record<string, any> = { actorUuid, amount };
+
+            try {
+                const client = await resolveClient(clientId);
+                assertSystemSupport(client, 'experience');
+
+                const response = await sendClientRequest({
+                    type: 'modify-experience',
+                    clientId: client.getId(),
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as ActorActionResult
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
@@ -0,0 +1,208 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { createAudioTTS } from '../../utils/assetGenerator.js';
+import { VoiceActor, StyleTone } from '../../types/types.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { sendClientRequest } from '../route-helpers.js';
+import { z } from 'zod';
+
+/**
+ * 플레이리스트 트랙 요약.
+ *
+ * @property id       PlaylistSound ID
+ * @property name     트랙 이름
+ * @property path     오디오 파일 경로
+ * @property playing  재생 중 여부
+ * @property volume   0 ~ 1 볼륨
+ * @property repeat   반복 여부
+ */
+export type PlaylistSoundSummary = {
+    id: string;
+    name: string;
+    path: string;
+    playing: boolean;
+    volume: number;
+    repeat: boolean;
+};
+
+/**
+ * 플레이리스트 요약.
+ *
+ * @property mode  CONST.PLAYLIST_MODES (-1 DISABLED, 0 SEQUENTIAL, 1 SHUFFLE, 2 SIMULTANEOUS)
+ */
+export type PlaylistSummary = {
+    id: string;
+    name: string;
+    playing: boolean;
+    mode: number;
+    sounds: PlaylistSoundSummary[];
+};
+
+export function registerAudioTools(server: McpServer): void {
+    const listArgs = {
+        ...baseArgs,
+        playingOnly: z.boolean().optional().default(false),
+    };
+
+    const controlArgs = {
+        ...baseArgs,
+        action: z.enum(['play', 'stop', 'crossfade', 'volume']),
+        playlistId: z.string().optional().describe('Playlist ID; omit with stop to stop everything'),
+        soundId: z.string().optional().describe('Track ID inside the playlist; omit to control the whole playlist'),
+        volume: z.number().min(0).max(1).optional().describe('Target volume for volume/crossfade'),
+        fadeMs: z.number().int().nonnegative().max(30000).optional().default(2000).describe('Fade duration for crossfade'),
+    };
+
+    const soundArgs = {
+        ...baseArgs,
+        src: z.string().optional().describe('Foundry data path or URL of the audio file'),
+        ttsText: z.string().optional().describe('Generate speech with the relay TTS and play it'),
+        temperature: z.number().min(0).max(2).optional().default(1),
+        styleTone: z.nativeEnum(StyleTone).optional().default(StyleTone.Normal),
+        voiceActor: z.nativeEnum(VoiceActor).optional().default(VoiceActor.Achernar),
+        volume: z.number().min(0).max(1).optional().default(0.8),
+        loop: z.boolean().optional().default(false),
+    };
+
+    server.registerTool(
+        'playlist-list',
+        {
+            title: 'Get Playlists',
+            description: 'Fetch playlists with their tracks and playback state',
+            inputSchema: listArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe playlist list',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, playingOnly } = args;
+            const payload: Record<string, any> = { playingOnly };
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'playlist-list',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as PlaylistSummary[]
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'playlist-control',
+        {
+            title: 'Control Playlist',
+            description: 'Play, stop, crossfade to, or set the volume of a playlist or track for all players',
+            inputSchema: controlArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Playlist control',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, action, playlistId, soundId, volume, fadeMs } = args;
+            if (action !== 'stop' && !playlistId) {
+                return formatToolError(new Error(`playlistId is required for ${action}`), clientId);
+            }
+            if (action === 'volume' && volume === undefined) {
+                return formatToolError(new Error('volume is required for action "volume"'), clientId);
+            }
+
+            const payload: Record<string, any> = { action };
+            if (playlistId) payload.playlistId = playlistId;
+            if (soundId) payload.soundId = soundId;
+            if (volume !== undefined) payload.volume = volume;
+            if (action === 'crossfade') payload.fadeMs = fadeMs;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'playlist-control',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as PlaylistSummary | PlaylistSummary[]
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'play-sound',
+        {
+            title: 'Play Sound',
+            description: 'Play a one-off sound file, or relay-generated TTS speech, for all players',
+            inputSchema: soundArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Sound playback',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, src, ttsText, temperature, styleTone, voiceActor, volume, loop } = args;
+            if (Boolean(src) === Boolean(ttsText)) {
+                return formatToolError(new Error('Provide exactly one of src or ttsText'), clientId);
+            }
+
+            try {
+                const audioPath = ttsText
+                    ? await createAudioTTS(ttsText, temperature, styleTone, voiceActor)
+                    : src!;
+                if (!audioPath) {
+                    throw new Error('TTS generation failed');
+                }
+
+                const response = await sendClientRequest({
+                    type: 'play-sound',
+                    clientId,
+                    payload: { src: audioPath, volume, loop },
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: { src: audioPath, result: response.data }
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
@@ -2,24 +2,226 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { createAudioTTS } from '../../utils/assetGenerator.js';
 import { VoiceActor, StyleTone } from '../../types/types.js';
 import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
-import { sendClientRequest } from '../route-helpers.js';
+import { resolveClient, sendClientRequest } from '../route-helpers.js';
+import { fetchUsers } from './users.js';
 import { z } from 'zod';
 
+/**
+ * chat-message 처리 결과.
+ *
+ * @property messageId  생성된 ChatMessage ID (fire-and-forget이면 없음)
+ * @property audioPath  함께 전송한 TTS 오디오 경로
+ */
+export type ChatMessageResult = {
+    messageId?: string;
+    audioPath?: string;
+};
+
+/**
+ * 말풍선 하나의 처리 결과.
+ *
+ * @property tokenId  대상 토큰 ID
+ * @property success  표시 성공 여부
+ * @property error    실패 사유
+ */
+export type ChatBubbleResult = {
+    tokenId: string;
+    success: boolean;
+    error?: string;
+};
+
+/** CONST.CHAT_MESSAGE_STYLES */
+const CHAT_MESSAGE_STYLES = {
+    ooc: 1,
+    ic: 2,
+    emote: 3,
+} as const;
+
+/** chat 공개 범위 → CONST.DICE_ROLL_MODES */
+const CHAT_VISIBILITY_MODES = {
+    public: 'publicroll',
+    gm: 'gmroll',
+    blind: 'blindroll',
+    self: 'selfroll',
+} as const;
+
+/**
+ * Foundry가 돌려주는 채팅 로그 항목.
+ *
+ * @property id         ChatMessage ID
+ * @property timestamp  작성 시각 (epoch ms)
+ * @property content    메시지 HTML
+ * @property speaker    ChatSpeakerData (alias, actor, token)
+ * @property author     작성한 사용자
+ * @property style      CONST.CHAT_MESSAGE_STYLES 값
+ * @property whisper    귓속말 대상 User ID 목록
+ * @property isRoll     주사위 굴림 메시지 여부
+ */
+export type ChatLogEntry = {
+    id: string;
+    timestamp: number;
+    content: string;
+    flavor?: string | null;
+    speaker?: { alias?: string | null; actor?: string | null; token?: string | null };
+    author?: { id: string; name: string } | null;
+    style?: number;
+    whisper?: string[];
+    isRoll?: boolean;
+};
+
+/**
+ * Foundry `chat-logs` 요청 payload.
+ * Foundry는 최신순으로 before보다 오래된 메시지를 최대 limit개(100 이하) 돌려준다.
+ *
+ * @property limit   한 번에 받을 최대 개수
+ * @property before  이 메시지(timestamp, id)보다 오래된 것만
+ * @property since   이 시각(epoch ms) 이후만
+ * @property until   이 시각(epoch ms) 이전만
+ */
+export type ChatLogsPayload = {
+    limit: number;
+    before?: { timestamp: number; id: string };
+    since?: number;
+    until?: number;
+};
+
+export type ChatLogMessageType = 'roll' | 'ic' | 'ooc' | 'emote' | 'whisper';
+
+/**
+ * 같은 화자가 연달아 말한 메시지 묶음 (summary 모드).
+ *
+ * @property speaker  화자 이름
+ * @property from     첫 메시지 시각
+ * @property to       마지막 메시지 시각
+ * @property count    묶인 메시지 수
+ * @property text     줄바꿈으로 이은 본문
+ */
+export type ChatLogSpeakerGroup = {
+    speaker: string;
+    from: number;
+    to: number;
+    count: number;
+    text: string;
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'",
+    '&nbsp;': ' ',
+};
+
+/**
+ * Renders chat HTML as plain text, keeping line breaks from block elements.
+ */
+function stripHtml(html: string): string {
+    return html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => HTML_ENTITIES[entity])
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\s*\n\s*/g, '\n')
+        .trim();
+}
+
+/**
+ * Classifies a chat message into the types the chat-logs filter understands.
+ */
+function chatMessageTypes(entry: ChatLogEntry): ChatLogMessageType[] {
+    const types: ChatLogMessageType[] = [];
+    if (entry.isRoll) types.push('roll');
+    if (entry.whisper?.length) types.push('whisper');
+    if (entry.style === CHAT_MESSAGE_STYLES.ic) types.push('ic');
+    if (entry.style === CHAT_MESSAGE_STYLES.ooc) types.push('ooc');
+    if (entry.style === CHAT_MESSAGE_STYLES.emote) types.push('emote');
+    return types;
+}
+
+function speakerName(entry: ChatLogEntry): string {
+    return entry.speaker?.alias || entry.author?.name || 'Unknown';
+}
+
+/** Foundry가 한 번에 돌려주는 최대 메시지 수 */
+const CHAT_LOG_BATCH_SIZE = 100;
+/** 필터에 걸리는 메시지가 드물 때 한 호출에서 훑는 최대 배치 수 */
+const CHAT_LOG_MAX_BATCHES = 5;
+
+/** 커서는 페이지 마지막(가장 오래된) 메시지의 `timestamp:id` */
+function toCursor(entry: ChatLogEntry): string {
+    return `${entry.timestamp}:${entry.id}`;
+}
+
+function parseCursor(cursor: string): { timestamp: number; id: string } {
+    const separator = cursor.indexOf(':');
+    const timestamp = Number(cursor.slice(0, separator));
+    if (separator < 0 || Number.isNaN(timestamp)) {
+        throw new Error(`Invalid cursor: ${cursor}`);
+    }
+    return { timestamp, id: cursor.slice(separator + 1) };
+}
+
+/** 최신순 정렬. 같은 시각이면 ID 역순으로 고정해 커서가 어긋나지 않게 한다 */
+function compareNewestFirst(a: { timestamp: number; id: string }, b: { timestamp: number; id: string }): number {
+    if (a.timestamp !== b.timestamp) return b.timestamp - a.timestamp;
+    return a.id === b.id ? 0 : (a.id < b.id ? 1 : -1);
+}
+
+/**
+ * Merges consecutive messages from the same speaker, in chronological order.
+ */
+function groupBySpeaker(entries: ChatLogEntry[]): ChatLogSpeakerGroup[] {
+    const groups: ChatLogSpeakerGroup[] = [];
+    for (const entry of [...entries].sort((a, b) => a.timestamp - b.timestamp)) {
+        const speaker = speakerName(entry);
+        const text = stripHtml(entry.content ?? '');
+        const last = groups[groups.length - 1];
+        if (last && last.speaker === speaker) {
+            last.to = entry.timestamp;
+            last.count += 1;
+            if (text) last.text = last.text ? `${last.text}\n${text}` : text;
+        } else {
+            groups.push({ speaker, from: entry.timestamp, to: entry.timestamp, count: 1, text });
+        }
+    }
+    return groups;
+}
+
+const fireAndForgetArg = z.boolean().optional().default(false)
+    .describe('Return as soon as the request is sent, without waiting for Foundry to confirm');
+
 export function registerChatMsgTools(server: McpServer): void {
     const logArrayArgs = {
         ...baseArgs,
         limit: z.number().int().positive().max(100).default(5).optional(),
+        cursor: z.string().optional().describe('nextCursor from the previous page, to continue further back'),
+        speaker: z.string().optional().describe('Case-insensitive speaker name (alias) filter'),
+        user: z.string().optional().describe('Author user name or ID'),
+        messageTypes: z.array(z.enum(['roll', 'ic', 'ooc', 'emote', 'whisper'])).optional()
+            .describe('Keep messages matching any of these types'),
+        since: z.string().datetime({ offset: true }).optional().describe('ISO timestamp; only messages at or after'),
+        until: z.string().datetime({ offset: true }).optional().describe('ISO timestamp; only messages at or before'),
+        format: z.enum(['html', 'text']).optional().default('html').describe('text strips HTML from the content'),
+        summary: z.boolean().optional().default(false).describe('Group consecutive messages by speaker as plain text'),
     };
 
     const chatArrayArgs = {
         ...baseArgs,
         message: z.string(),
         tokenId: z.string().optional(),
+        speakerActor: z.string().optional().describe('Actor UUID or name to speak as (no token needed)'),
+        alias: z.string().optional().describe('Displayed speaker name'),
+        style: z.enum(['ic', 'ooc', 'emote']).optional().describe('In-character, out-of-character or emote'),
+        whisperTo: z.array(z.string()).optional().describe('Recipient user names or IDs; makes the message a whisper'),
+        visibility: z.enum(['public', 'gm', 'blind', 'self']).optional().default('public')
+            .describe('public, GM only, blind (GM only, hidden from sender) or self'),
         audioTTS: z.boolean().optional().default(false),
         temperature: z.number().min(0).max(2).optional().default(1),
         styleTone: z.nativeEnum(StyleTone).optional().default(StyleTone.Normal),
         voiceActor: z.nativeEnum(VoiceActor).optional().default(VoiceActor.Achernar),
-
+        fireAndForget: fireAndForgetArg,
     };
 
 
@@ -30,14 +232,15 @@ export function registerChatMsgTools(server: McpServer): void {
             tokenId: z.string(),
             message: z.string(),
             asyncDelay: z.number().int().nonnegative().optional().default(0),
-        })).nonempty()
+        })).nonempty(),
+        fireAndForget: fireAndForgetArg,
     };
 
     server.registerTool(
         'chat-logs',
         {
             title: 'Get Chat Log History',
-            description: 'Fetch the recent chat log entries for a Foundry client',
+            description: 'Fetch chat log entries newest first, paging back with a cursor and filtering by speaker, user, type and time range',
             inputSchema: logArrayArgs,
             outputSchema: FIX_outputArgs,
             annotations: {
@@ -48,23 +251,76 @@ export function registerChatMsgTools(server: McpServer): void {
             }
         },
         async (logArrayArgs) => {
-            const payload: Record<string, any> = {};
-            const { clientId, limit } = logArrayArgs;
-            if (typeof limit === 'number') {
-                payload.limit = limit;
-            }
+            const { clientId, limit, cursor, speaker, user, messageTypes, since, until, format, summary } = logArrayArgs;
+            const pageSize = limit ?? 5;
+            const speakerNeedle = speaker?.trim().toLowerCase();
+            const userNeedle = user?.trim().toLowerCase();
+            // 커서·시간 범위·개수는 Foundry가 처리하고, 화자·작성자·종류 필터만 릴레이에서 적용한다
+            const matchesFilters = (entry: ChatLogEntry) =>
+                (!speakerNeedle || speakerName(entry).toLowerCase().includes(speakerNeedle))
+                && (!userNeedle || entry.author?.id === user || entry.author?.name.toLowerCase() === userNeedle)
+                && (!messageTypes?.length || chatMessageTypes(entry).some(type => messageTypes.includes(type)));
+            const needsRelayFilter = Boolean(speakerNeedle || userNeedle || messageTypes?.length);
 
             try {
-                const response = await sendClientRequest({
-                    type: 'chat-logs',
-                    clientId,
-                    payload,
-                });
+                const payload: ChatLogsPayload = {
+                    // 다음 페이지 유무를 알기 위해 한 개 더 받되 Foundry 한도를 넘기지 않는다
+                    limit: needsRelayFilter ? CHAT_LOG_BATCH_SIZE : Math.min(pageSize + 1, CHAT_LOG_BATCH_SIZE),
+                };
+                if (cursor) payload.before = parseCursor(cursor);
+                if (since) payload.since = Date.parse(since);
+                if (until) payload.until = Date.parse(until);
+
+                const matches: ChatLogEntry[] = [];
+                let response: Record<string, any> = {};
+                let scanCursor: ChatLogEntry | null = null;
+                let exhausted = false;
+
+                for (let batch = 0; batch < CHAT_LOG_MAX_BATCHES && matches.length <= pageSize; batch++) {
+                    response = await sendClientRequest({
+                        type: 'chat-logs',
+                        clientId,
+                        payload,
+                    });
+
+                    const before = payload.before;
+                    const received: ChatLogEntry[] = Array.isArray(response.data) ? response.data : response.data?.messages ?? [];
+                    // before를 모르는 구버전 모듈이 같은 메시지를 다시 주더라도 커서보다 오래된 것만 쓴다
+                    const log = received
+                        .filter(entry => !before || compareNewestFirst(before, entry) < 0)
+                        .sort(compareNewestFirst);
+
+                    for (const entry of log) {
+                        if (matches.length > pageSize) break;
+                        scanCursor = entry;
+                        if (matchesFilters(entry)) matches.push(entry);
+                    }
+                    if (received.length < payload.limit || log.length === 0) {
+                        exhausted = true;
+                        break;
+                    }
+                    payload.before = { timestamp: scanCursor!.timestamp, id: scanCursor!.id };
+                }
+
+                const page = matches.slice(0, pageSize);
+                // 페이지를 못 채우고 배치 한도에 닿았으면 훑은 지점부터 이어서 찾도록 커서를 준다
+                const nextCursor = matches.length > page.length
+                    ? toCursor(page[page.length - 1])
+                    : !exhausted && scanCursor ? toCursor(scanCursor) : null;
+                const entries = format === 'text'
+                    ? page.map(entry => ({
+                        ...entry,
+                        content: stripHtml(entry.content ?? ''),
+                        flavor: entry.flavor ? stripHtml(entry.flavor) : entry.flavor,
+                    }))
+                    : page;
 
                 const output = {
                     clientId: response.clientId,
                     requestId: response.requestId,
-                    data: response.data
+                    data: summary
+                        ? { groups: groupBySpeaker(page), nextCursor }
+                        : { entries: entries.map(entry => ({ ...entry, types: chatMessageTypes(entry) })), nextCursor }
                 }
 
                 return {
@@ -92,20 +348,34 @@ export function registerChatMsgTools(server: McpServer): void {
             }
         },
         async (bubbleArgs) => {
-            const { clientId, bubbles } = bubbleArgs;
+            const { clientId, bubbles, fireAndForget } = bubbleArgs;
             const payload = { data: bubbles };
+            // 말풍선 지연 시간만큼 응답이 늦어지므로 타임아웃에 더해 준다
+            const totalDelay = bubbles.reduce((sum, bubble) => sum + (bubble.asyncDelay ?? 0), 0);
 
             try {
                 const response = await sendClientRequest({
                     type: 'chat-bubbles',
                     clientId,
                     payload,
+                    timeout: 10000 + totalDelay,
+                    fireAndForget,
                 });
 
+                const results: ChatBubbleResult[] | undefined = Array.isArray(response.data) ? response.data : undefined;
+                if (results?.some(result => !result.success)) {
+                    return formatToolError({
+                        error: `${results.filter(result => !result.success).length} of ${results.length} chat bubbles failed`,
+                        clientId: response.clientId,
+                        requestId: response.requestId,
+                        data: results,
+                    }, clientId);
+                }
+
                 const output = {
                     clientId: response.clientId,
                     requestId: response.requestId,
-                    data: response.data
+                    data: results ?? response.data
                 }
 
                 return {
@@ -122,7 +392,7 @@ export function registerChatMsgTools(server: McpServer): void {
         'chat-message',
         {
             title: 'Send Chat Message',
-            description: 'Send Chat Message for a Foundry client',
+            description: 'Send a chat message, optionally as an actor or alias, in IC/OOC/emote style, whispered to users or with gm/blind/self visibility',
             inputSchema: chatArrayArgs,
             outputSchema: FIX_outputArgs,
             annotations: {
@@ -134,27 +404,57 @@ export function registerChatMsgTools(server: McpServer): void {
         },
         async (chatArrayArgs) => {
             const payload: Record<string, any> = {};
-            const { clientId, message, tokenId, audioTTS, temperature, styleTone, voiceActor } = chatArrayArgs;
+            const {
+                clientId, message, tokenId, speakerActor, alias, style, whisperTo, visibility,
+                audioTTS, temperature, styleTone, voiceActor, fireAndForget,
+            } = chatArrayArgs;
             if (typeof message === 'string') {
                 payload.message = message;
             }
             if (typeof tokenId === 'string') {
                 payload.tokenId = tokenId;
             }
-            if (typeof audioTTS === 'boolean' && audioTTS === true) {
-                payload.audioPath = await createAudioTTS(message, temperature, styleTone, voiceActor);
+            if (speakerActor || alias) {
+                payload.speaker = {
+                    ...(speakerActor ? { actor: speakerActor } : {}),
+                    ...(alias ? { alias } : {}),
+                };
+            }
+            if (style) {
+                payload.style = CHAT_MESSAGE_STYLES[style];
             }
+            payload.rollMode = CHAT_VISIBILITY_MODES[visibility ?? 'public'];
             try {
+                if (whisperTo?.length) {
+                    const client = await resolveClient(clientId);
+                    const { users } = await fetchUsers(client.getId());
+                    payload.whisper = whisperTo.map(recipient => {
+                        const user = users.find(candidate => candidate.id === recipient)
+                            ?? users.find(candidate => candidate.name.toLowerCase() === recipient.toLowerCase());
+                        if (!user) {
+                            throw {
+                                error: `Unknown whisper recipient: ${recipient}`,
+                                users: users.map(candidate => ({ id: candidate.id, name: candidate.name })),
+                            };
+                        }
+                        return user.id;
+                    });
+                }
+                if (typeof audioTTS === 'boolean' && audioTTS === true) {
+                    payload.audioPath = await createAudioTTS(message, temperature, styleTone, voiceActor);
+                }
+
                 const response = await sendClientRequest({
                     type: 'chat-message',
                     clientId,
                     payload,
+                    fireAndForget,
                 });
 
                 const output = {
                     clientId: response.clientId,
                     requestId: response.requestId,
-                    data: response.data
+                    data: (fireAndForget ? { audioPath: payload.audioPath } : response.data) as ChatMessageResult
                 }
 
                 return {
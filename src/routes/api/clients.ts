@@ -0,0 +1,87 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { FIX_outputArgs, formatToolError } from './common.js';
+import { ClientManager } from '../../core/ClientManager.js';
+import { Client, ClientInfo, describeClient } from '../../core/Client.js';
+import { cfg } from '../../config.js';
+import { z } from 'zod';
+
+/**
+ * Lists connected clients, optionally narrowed to those whose world ID, title or custom name matches `name`.
+ * @param name Optional world identifier to resolve.
+ * @returns Client info for every matching live connection.
+ */
+async function listClientInfo(name?: string): Promise<ClientInfo[]> {
+    const apiKey = cfg.API_KEY ?? '';
+
+    if (name) {
+        const matches = await ClientManager.findClientsByName(apiKey, name);
+        return matches.map(describeClient);
+    }
+
+    const ids = await ClientManager.getConnectedClients(apiKey);
+    const clients = await Promise.all(ids.map(id => ClientManager.getClient(id)));
+    return clients
+        .filter((client): client is Client => client !== null)
+        .map(describeClient);
+}
+
+export function registerClientTools(server: McpServer): void {
+    const listArgs = {
+        name: z.string().optional().describe('World title, custom name or world ID to resolve into a clientId'),
+    };
+
+    server.registerResource(
+        'foundry-clients',
+        'foundry://clients',
+        {
+            title: 'Connected Foundry Worlds',
+            description: 'Foundry clients currently connected to the relay',
+            mimeType: 'application/json',
+        },
+        async (uri) => ({
+            contents: [
+                {
+                    uri: uri.href,
+                    mimeType: 'application/json',
+                    text: JSON.stringify(await listClientInfo()),
+                },
+            ],
+        })
+    );
+
+    server.registerTool(
+        'list-clients',
+        {
+            title: 'List Connected Foundry Worlds',
+            description: 'List connected Foundry clients (world, system, versions) to pick the clientId for other tools. Pass name to resolve a world by title or custom name.',
+            inputSchema: listArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe client list',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { name } = args;
+
+            try {
+                const clients = await listClientInfo(name);
+
+                const output = {
+                    clientId: 'RelaySelf(No clientID)',
+                    requestId: 'RelaySelf(No RequestID)',
+                    data: clients
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, 'None');
+            }
+        },
+    );
+}
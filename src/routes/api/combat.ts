@@ -0,0 +1,309 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { sendClientRequest } from '../route-helpers.js';
+import { z } from 'zod';
+
+/**
+ * 직렬화된 Combatant 요약 (Foundry 의존 없이 전달 가능한 형태).
+ *
+ * @property id          Combatant ID
+ * @property name        표시 이름
+ * @property tokenUuid   연결된 토큰 UUID
+ * @property actorUuid   연결된 액터 UUID
+ * @property initiative  이니셔티브 값 (굴리기 전이면 null)
+ * @property defeated    전투 불능 여부
+ * @property hidden      GM에게만 보이는지 여부
+ * @property img         토큰 이미지 경로
+ */
+export type CombatantSummary = {
+    id: string;
+    name: string;
+    tokenUuid?: string | null;
+    actorUuid?: string | null;
+    initiative: number | null;
+    defeated: boolean;
+    hidden: boolean;
+    img?: string | null;
+};
+
+/**
+ * 직렬화된 Combat(Encounter) 요약.
+ *
+ * @property id        Combat ID
+ * @property name      전투 이름 (선택)
+ * @property active    현재 씬의 활성 전투인지 여부
+ * @property started   전투가 시작되었는지 여부
+ * @property round     현재 라운드 (시작 전이면 0)
+ * @property turn      현재 턴 인덱스 (turns 배열 기준)
+ * @property current   현재 차례인 Combatant
+ * @property turns     이니셔티브 순서로 정렬된 Combatant 목록
+ */
+export type EncounterSummary = {
+    id: string;
+    name?: string | null;
+    active: boolean;
+    started: boolean;
+    round: number;
+    turn: number | null;
+    current: CombatantSummary | null;
+    turns: CombatantSummary[];
+};
+
+export type EncounterListResult = { encounters: EncounterSummary[] };
+
+export function registerCombatTools(server: McpServer): void {
+    const listArgs = {
+        ...baseArgs,
+    };
+
+    const startArgs = {
+        ...baseArgs,
+        tokenUuids: z.array(z.string()).optional().describe('Token UUIDs to add as combatants'),
+        startWithSelected: z.boolean().optional().default(false).describe('Add the tokens currently selected by the GM'),
+        startWithPlayers: z.boolean().optional().default(false).describe('Add tokens of player-owned actors on the scene'),
+        rollNPC: z.boolean().optional().default(false).describe('Roll initiative for NPC combatants'),
+        rollAll: z.boolean().optional().default(false).describe('Roll initiative for every combatant'),
+        name: z.string().optional(),
+    };
+
+    const turnArgs = {
+        ...baseArgs,
+        action: z.enum(['next-turn', 'next-round', 'last-turn', 'last-round']),
+        encounterId: z.string().optional().describe('Defaults to the active encounter'),
+    };
+
+    const endArgs = {
+        ...baseArgs,
+        encounterId: z.string().optional().describe('Defaults to the active encounter'),
+    };
+
+    const combatantArgs = {
+        ...baseArgs,
+        action: z.enum(['add', 'remove']),
+        encounterId: z.string().optional().describe('Defaults to the active encounter'),
+        uuids: z.array(z.string()).optional().describe('Token or actor UUIDs'),
+        selected: z.boolean().optional().default(false).describe('Use the tokens currently selected by the GM'),
+        rollInitiative: z.boolean().optional().default(false).describe('Roll initiative for added combatants'),
+    };
+
+    server.registerTool(
+        'combat-list',
+        {
+            title: 'Get Combat Encounters',
+            description: 'Fetch encounters with turn order, round and current combatant',
+            inputSchema: listArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe encounter list',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId } = args;
+            const payload: Record<string, any> = {};
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'encounters',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as EncounterListResult
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'combat-start',
+        {
+            title: 'Start Combat Encounter',
+            description: 'Create and start an encounter on the current scene',
+            inputSchema: startArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Start encounter',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, tokenUuids, startWithSelected, startWithPlayers, rollNPC, rollAll, name } = args;
+            const payload: Record<string, any> = {
+                startWithSelected,
+                startWithPlayers,
+                rollNPC,
+                rollAll,
+            };
+            if (tokenUuids?.length) payload.tokens = tokenUuids;
+            if (name) payload.name = name;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'start-encounter',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as EncounterSummary
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'combat-turn',
+        {
+            title: 'Advance Combat Turn',
+            description: 'Move the encounter to the next/previous turn or round and return the new current combatant',
+            inputSchema: turnArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Change turn',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, action, encounterId } = args;
+            const payload: Record<string, any> = {};
+            if (encounterId) payload.encounter = encounterId;
+
+            try {
+                const response = await sendClientRequest({
+                    type: action,
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as EncounterSummary
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'combat-end',
+        {
+            title: 'End Combat Encounter',
+            description: 'End and delete an encounter',
+            inputSchema: endArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'End encounter',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, encounterId } = args;
+            const payload: Record<string, any> = {};
+            if (encounterId) payload.encounter = encounterId;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'end-encounter',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'combat-combatants',
+        {
+            title: 'Add or Remove Combatants',
+            description: 'Add tokens to or remove them from an encounter',
+            inputSchema: combatantArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Combatant mutation',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, action, encounterId, uuids, selected, rollInitiative } = args;
+            const payload: Record<string, any> = { selected };
+            if (encounterId) payload.encounter = encounterId;
+            if (uuids?.length) payload.uuids = uuids;
+            if (action === 'add') payload.rollInitiative = rollInitiative;
+
+            if (!payload.uuids && !selected) {
+                return formatToolError(new Error('Either uuids or selected must be provided'), clientId);
+            }
+
+            try {
+                const response = await sendClientRequest({
+                    type: action === 'add' ? 'add-to-encounter' : 'remove-from-encounter',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as EncounterSummary
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
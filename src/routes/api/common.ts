@@ -8,10 +8,11 @@ export const FIX_outputArgs = {
 };
 
 export const baseArgs = {
-  clientId: z.string(),
+  clientId: z.string().optional()
+    .describe('Foundry client ID, world title or custom name. Optional when only one world is connected'),
 };
 
-export function formatToolError(err: unknown, clientId: string) {
+export function formatToolError(err: unknown, clientId?: string) {
   const message =
     err instanceof Error
       ? err.message
@@ -25,13 +26,13 @@ export function formatToolError(err: unknown, clientId: string) {
       : {};
 
   if (!structured.error) structured.error = message;
-  if (!structured.clientId) structured.clientId = clientId;
+  if (!structured.clientId) structured.clientId = clientId ?? 'unresolved';
   if (!structured.requestId) structured.requestId = structured.requestId ?? 'unknown';
 
   return {
     content: [{
       type: 'text' as const,
-      text: `Failed to process request for client ${clientId}: ${message}`,
+      text: `Failed to process request for client ${structured.clientId}: ${message}`,
     }],
     structuredContent: structured,
   };
@@ -0,0 +1,308 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { resolveClient, sendClientRequest } from '../route-helpers.js';
+import { findFolder, FolderNode } from './documents.js';
+import { z } from 'zod';
+
+/**
+ * 컴펜디움 팩 메타데이터.
+ *
+ * @property id            팩 ID (package.name, 예: dnd5e.monsters)
+ * @property label         표시 이름
+ * @property documentName  Actor, Item 등 팩이 담는 문서 타입
+ * @property packageName   팩을 제공하는 시스템/모듈/월드
+ * @property size          인덱스 항목 수
+ * @property locked        편집 잠금 여부
+ */
+export type CompendiumPackSummary = {
+    id: string;
+    label: string;
+    documentName: string;
+    packageName: string;
+    size: number;
+    locked: boolean;
+};
+
+export type CompendiumIndexEntry = {
+    uuid: string;
+    name: string;
+    type?: string;
+    img?: string | null;
+};
+
+export type CompendiumIndexPage = {
+    packId: string;
+    total: number;
+    offset: number;
+    limit: number;
+    nextOffset: number | null;
+    entries: CompendiumIndexEntry[];
+};
+
+/**
+ * Reads the document type from a compendium UUID (`Compendium.<package>.<pack>.<Type>.<id>`).
+ * @returns Document name, or null for legacy UUIDs without the type segment.
+ */
+function documentNameFromUuid(uuid: string): string | null {
+    const parts = uuid.split('.');
+    return parts[0] === 'Compendium' && parts.length >= 5 ? parts[3] : null;
+}
+
+/**
+ * Resolves the world folder an import should land in, looking it up by name and optionally creating it.
+ * Lookup failures other than not-found are rethrown so a slow client cannot cause duplicate folders.
+ * @param clientId Resolved client ID.
+ * @param folderName Folder name to find.
+ * @param folderType Document type the folder holds.
+ * @param createFolder Create the folder when it does not exist.
+ * @returns Folder ID, or null when not found and not created.
+ */
+async function resolveImportFolder(clientId: string, folderName: string, folderType: string, createFolder: boolean): Promise<string | null> {
+    const { folder: existing } = await findFolder(clientId, { name: folderName, folderType });
+    if (existing?.id) return existing.id;
+
+    if (!createFolder) return null;
+
+    const created = await sendClientRequest({
+        type: 'create-folder',
+        clientId,
+        payload: { name: folderName, folderType },
+    });
+    return (created.data as FolderNode | null)?.id ?? null;
+}
+
+export function registerCompendiumTools(server: McpServer): void {
+    const listArgs = {
+        ...baseArgs,
+        documentName: z.string().optional().describe('Only packs of this document type (Actor, Item, JournalEntry, ...)'),
+    };
+
+    const indexArgs = {
+        ...baseArgs,
+        packId: z.string().describe('Pack ID, e.g. dnd5e.monsters'),
+        name: z.string().optional().describe('Case-insensitive name filter'),
+        type: z.string().optional().describe('Document sub-type filter, e.g. npc, spell, weapon'),
+        offset: z.number().int().nonnegative().optional().default(0),
+        limit: z.number().int().positive().max(100).optional().default(25),
+    };
+
+    const entryArgs = {
+        ...baseArgs,
+        uuid: z.string().describe('Compendium entry UUID'),
+    };
+
+    const importArgs = {
+        ...baseArgs,
+        uuid: z.string().describe('Compendium entry UUID'),
+        folderId: z.string().optional().describe('Target world folder ID'),
+        folderName: z.string().optional().describe('Target folder name, resolved via get-folder'),
+        createFolder: z.boolean().optional().default(true).describe('Create folderName if it does not exist'),
+    };
+
+    server.registerTool(
+        'compendium-list',
+        {
+            title: 'Get Compendium Packs',
+            description: 'Fetch the compendium packs available in the world',
+            inputSchema: listArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe compendium list',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, documentName } = args;
+            const payload: Record<string, any> = {};
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'compendium-list',
+                    clientId,
+                    payload,
+                });
+
+                const packs: CompendiumPackSummary[] = Array.isArray(response.data) ? response.data : [];
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: documentName ? packs.filter(pack => pack.documentName === documentName) : packs
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'compendium-search',
+        {
+            title: 'Search Compendium Index',
+            description: 'Search a compendium pack index by name and sub-type',
+            inputSchema: indexArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe compendium search',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, packId, name, type, offset, limit } = args;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'compendium-index',
+                    clientId,
+                    payload: { packId },
+                    timeout: 30000,
+                });
+
+                const needle = name?.trim().toLowerCase();
+                const index: CompendiumIndexEntry[] = Array.isArray(response.data) ? response.data : [];
+                const matches = index
+                    .filter(entry => !needle || entry.name.toLowerCase().includes(needle))
+                    .filter(entry => !type || entry.type === type)
+                    .sort((a, b) => a.name.localeCompare(b.name));
+
+                const start = offset ?? 0;
+                const pageSize = limit ?? 25;
+                const page: CompendiumIndexPage = {
+                    packId,
+                    total: matches.length,
+                    offset: start,
+                    limit: pageSize,
+                    nextOffset: start + pageSize < matches.length ? start + pageSize : null,
+                    entries: matches.slice(start, start + pageSize),
+                };
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: page
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'compendium-entry',
+        {
+            title: 'Get Compendium Entry',
+            description: 'Fetch the full document data of a compendium entry',
+            inputSchema: entryArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe compendium entry',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, uuid } = args;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'compendium-entry',
+                    clientId,
+                    payload: { uuid },
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'compendium-import',
+        {
+            title: 'Import Compendium Entry',
+            description: 'Import a compendium entry into the world, optionally into a folder found or created by name',
+            inputSchema: importArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Compendium import',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, uuid, folderId, folderName, createFolder } = args;
+
+            try {
+                const client = await resolveClient(clientId);
+                const payload: Record<string, any> = { uuid };
+
+                if (folderId) {
+                    payload.folderId = folderId;
+                } else if (folderName) {
+                    let folderType = documentNameFromUuid(uuid);
+                    if (!folderType) {
+                        const entry = await sendClientRequest({
+                            type: 'compendium-entry',
+                            clientId: client.getId(),
+                            payload: { uuid },
+                        });
+                        folderType = entry.data?.documentName ?? null;
+                    }
+                    if (!folderType) {
+                        throw new Error(`Could not determine the document type of ${uuid}`);
+                    }
+
+                    const resolvedFolderId = await resolveImportFolder(client.getId(), folderName, folderType, createFolder ?? true);
+                    if (!resolvedFolderId) {
+                        throw new Error(`Folder '${folderName}' not found`);
+                    }
+                    payload.folderId = resolvedFolderId;
+                }
+
+                const response = await sendClientRequest({
+                    type: 'compendium-import',
+                    clientId: client.getId(),
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
@@ -0,0 +1,256 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { sendClientRequest } from '../route-helpers.js';
+import { z } from 'zod';
+
+/**
+ * 주사위 항(Die term) 하나의 요약.
+ *
+ * @property faces      주사위 면 수 (d20 → 20)
+ * @property number     굴린 주사위 개수
+ * @property modifiers  kh, r1, x 등 적용된 수정자
+ * @property results    합계에 반영된(active) 결과값
+ * @property discarded  버려진(kh/kl/reroll) 결과값
+ * @property total      results 합계
+ */
+export type DiceTermSummary = {
+    faces: number;
+    number: number;
+    modifiers: string[];
+    results: number[];
+    discarded: number[];
+    total: number;
+};
+
+/**
+ * 직렬화된 Roll을 LLM이 읽기 쉬운 형태로 정리한 결과.
+ *
+ * @property id         연결된 ChatMessage ID (있을 때)
+ * @property formula    굴림 공식
+ * @property total      최종 합계
+ * @property dice       주사위 항 목록
+ * @property flavor     플레이버 텍스트
+ * @property speaker    굴린 주체 (alias 또는 actor 이름)
+ * @property rollMode   굴림 공개 범위
+ * @property timestamp  굴린 시각 (epoch ms)
+ */
+export type RollSummary = {
+    id?: string;
+    formula: string;
+    total: number | null;
+    dice: DiceTermSummary[];
+    flavor?: string;
+    speaker?: string;
+    rollMode?: string;
+    timestamp?: number;
+};
+
+/**
+ * Recursively collects Die terms, descending into pool and parenthetical terms.
+ * @param terms Serialized RollTerm array.
+ * @returns Flattened dice term summaries.
+ */
+function collectDice(terms: any[]): DiceTermSummary[] {
+    const dice: DiceTermSummary[] = [];
+
+    for (const term of terms) {
+        if (Array.isArray(term?.rolls)) {
+            for (const inner of term.rolls) {
+                dice.push(...collectDice(inner?.terms ?? []));
+            }
+        }
+        if (term?.roll?.terms) {
+            dice.push(...collectDice(term.roll.terms));
+        }
+        if (typeof term?.faces !== 'number') continue;
+
+        const rawResults: any[] = Array.isArray(term.results) ? term.results : [];
+        const results = rawResults.filter(r => r.active !== false && !r.discarded).map(r => Number(r.result));
+        const discarded = rawResults.filter(r => r.active === false || r.discarded).map(r => Number(r.result));
+
+        dice.push({
+            faces: term.faces,
+            number: term.number ?? rawResults.length,
+            modifiers: Array.isArray(term.modifiers) ? term.modifiers : [],
+            results,
+            discarded,
+            total: results.reduce((sum, value) => sum + value, 0),
+        });
+    }
+    return dice;
+}
+
+/**
+ * Converts a serialized Foundry Roll (or a chat message wrapping one) into a RollSummary.
+ * @param raw Roll JSON, or an object with a `roll`/`rolls` property.
+ * @returns Parsed roll summary.
+ */
+function summarizeRoll(raw: any): RollSummary {
+    const roll = raw?.roll ?? (Array.isArray(raw?.rolls) ? raw.rolls[0] : raw);
+    const parsed = typeof roll === 'string' ? JSON.parse(roll) : roll;
+    const total = parsed?.total ?? parsed?._total;
+
+    return {
+        id: raw?.id ?? raw?.messageId,
+        formula: parsed?.formula ?? '',
+        total: typeof total === 'number' ? total : null,
+        dice: collectDice(Array.isArray(parsed?.terms) ? parsed.terms : []),
+        flavor: raw?.flavor ?? parsed?.options?.flavor,
+        speaker: raw?.speaker?.alias ?? raw?.user,
+        rollMode: raw?.rollMode ?? parsed?.options?.rollMode,
+        timestamp: raw?.timestamp,
+    };
+}
+
+export function registerDiceTools(server: McpServer): void {
+    const rollArgs = {
+        ...baseArgs,
+        formula: z.string().describe('Dice formula, e.g. 1d20+5 or 4d6kh3'),
+        speaker: z.string().optional().describe('Actor UUID or token ID to roll as'),
+        flavor: z.string().optional().describe('Flavor text shown with the roll'),
+        rollMode: z.enum(['publicroll', 'gmroll', 'blindroll', 'selfroll']).optional().default('publicroll'),
+        createChatMessage: z.boolean().optional().default(true),
+    };
+
+    const historyArgs = {
+        ...baseArgs,
+        limit: z.number().int().positive().max(50).default(10).optional(),
+    };
+
+    const lastArgs = {
+        ...baseArgs,
+    };
+
+    server.registerTool(
+        'roll-dice',
+        {
+            title: 'Roll Dice',
+            description: 'Roll a dice formula in Foundry and return the total and individual dice results',
+            inputSchema: rollArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Dice roll',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, formula, speaker, flavor, rollMode, createChatMessage } = args;
+            const payload: Record<string, any> = {
+                formula,
+                rollMode,
+                createChatMessage,
+            };
+            if (speaker) payload.speaker = speaker;
+            if (flavor) payload.flavor = flavor;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'roll',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: summarizeRoll(response.data)
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'roll-history',
+        {
+            title: 'Get Recent Rolls',
+            description: 'Fetch the most recent dice rolls with parsed totals',
+            inputSchema: historyArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe roll history',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, limit } = args;
+            const payload: Record<string, any> = {};
+            if (typeof limit === 'number') {
+                payload.limit = limit;
+            }
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'rolls',
+                    clientId,
+                    payload,
+                });
+
+                const rolls: any[] = Array.isArray(response.data) ? response.data : [];
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: rolls.map(summarizeRoll)
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'roll-last',
+        {
+            title: 'Get Last Roll',
+            description: 'Fetch the most recent dice roll with parsed totals',
+            inputSchema: lastArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe last roll',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId } = args;
+            const payload: Record<string, any> = {};
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'last-roll',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data ? summarizeRoll(response.data) : null
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
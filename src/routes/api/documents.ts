@@ -0,0 +1,462 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { resolveClient, sendClientRequest } from '../route-helpers.js';
+import { computeDocumentDiff, DocumentChange } from '../../utils/documentDiff.js';
+import { z } from 'zod';
+
+export const DOCUMENT_TYPES = [
+    'Actor', 'Item', 'Scene', 'JournalEntry', 'RollTable', 'Playlist', 'Macro', 'Cards',
+] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+/** 업데이트 시 변경을 허용하지 않는 시스템 관리 필드 */
+const PROTECTED_FIELDS = ['_id', '_stats'];
+
+export const documentPatchSchema = z.record(z.string(), z.any())
+    .refine(patch => Object.keys(patch).length > 0, { message: 'patch must not be empty' })
+    .refine(
+        patch => !Object.keys(patch).some(key => PROTECTED_FIELDS.includes(key.split('.')[0])),
+        { message: `patch must not modify ${PROTECTED_FIELDS.join(', ')}` }
+    );
+
+/**
+ * Checks that a world UUID (e.g. `Actor.abc123`) belongs to the declared document type.
+ * Compendium and embedded UUIDs are only checked for their leading collection.
+ * @returns Error message, or null when the UUID matches.
+ */
+function checkUuidType(uuid: string, documentType: DocumentType): string | null {
+    const [collection] = uuid.split('.');
+    if (collection === 'Compendium') return null;
+    return collection === documentType
+        ? null
+        : `UUID '${uuid}' does not refer to a ${documentType} document`;
+}
+
+/**
+ * 폴더 트리 노드 (structure/get-folder 응답 기준).
+ *
+ * @property id        Folder ID
+ * @property name      폴더 이름
+ * @property type      폴더가 담는 문서 타입
+ * @property parent    상위 폴더 ID (루트면 null)
+ * @property contents  폴더에 들어있는 문서 요약
+ * @property children  하위 폴더
+ */
+export type FolderNode = {
+    id: string;
+    name: string;
+    type: DocumentType | string;
+    parent: string | null;
+    contents?: { uuid: string; name: string }[];
+    children?: FolderNode[];
+};
+
+/**
+ * Foundry `get-folder` 요청 payload. ID로 찾거나, 이름과 문서 타입으로 찾는다.
+ * 찾지 못하면 Foundry는 `error: 'Folder not found'`로 응답한다.
+ */
+export type GetFolderPayload =
+    | { folderId: string }
+    | { name: string; folderType: DocumentType | string };
+
+/**
+ * Looks up a folder with `get-folder`.
+ * Only a not-found response maps to null; timeouts and other failures are rethrown.
+ * @param clientId Resolved client ID.
+ * @param query Folder ID, or name and document type.
+ * @returns Relay response and folder; both null when the folder does not exist.
+ */
+export async function findFolder(clientId: string, query: GetFolderPayload): Promise<{
+    response: Record<string, any> | null;
+    folder: FolderNode | null;
+}> {
+    try {
+        const response = await sendClientRequest({
+            type: 'get-folder',
+            clientId,
+            payload: query,
+        });
+        return { response, folder: (response.data as FolderNode | null) ?? null };
+    } catch (err) {
+        const message = (err as any)?.error;
+        if (typeof message === 'string' && /not found/i.test(message)) {
+            return { response: null, folder: null };
+        }
+        throw err;
+    }
+}
+
+export type DocumentUpdateResult =
+    | { dryRun: true; uuid: string; changes: DocumentChange[] }
+    | { dryRun: false; uuid: string; changes: DocumentChange[]; document: Record<string, unknown> };
+
+export function registerDocumentTools(server: McpServer): void {
+    const readArgs = {
+        ...baseArgs,
+        documentType: z.enum(DOCUMENT_TYPES),
+        uuid: z.string(),
+    };
+
+    const createArgs = {
+        ...baseArgs,
+        documentType: z.enum(DOCUMENT_TYPES),
+        data: z.object({
+            name: z.string(),
+            type: z.string().optional().describe('Sub-type, e.g. character/npc for Actor, weapon for Item'),
+            folder: z.string().optional().describe('Folder ID'),
+        }).passthrough(),
+    };
+
+    const updateArgs = {
+        ...baseArgs,
+        documentType: z.enum(DOCUMENT_TYPES),
+        uuid: z.string(),
+        patch: documentPatchSchema.describe('Fields to change, nested or dot-notation (use "-=key" to delete)'),
+        dryRun: z.boolean().optional().default(false).describe('Return the computed diff without applying it'),
+    };
+
+    const deleteArgs = {
+        ...baseArgs,
+        documentType: z.enum(DOCUMENT_TYPES),
+        uuid: z.string(),
+    };
+
+    const structureArgs = {
+        ...baseArgs,
+        types: z.array(z.enum(DOCUMENT_TYPES)).optional().describe('Limit to these document types'),
+        path: z.string().optional().describe('Folder or compendium UUID to list the contents of'),
+    };
+
+    const folderArgs = {
+        ...baseArgs,
+        action: z.enum(['read', 'create', 'delete']),
+        folderId: z.string().optional().describe('Required for delete; read by ID or by name + folderType'),
+        name: z.string().optional().describe('Required for create'),
+        folderType: z.enum(DOCUMENT_TYPES).optional().describe('Document type the folder holds (create, read by name)'),
+        parentFolderId: z.string().optional(),
+        deleteContents: z.boolean().optional().default(false).describe('Also delete documents inside the folder'),
+    };
+
+    server.registerTool(
+        'document-read',
+        {
+            title: 'Get Document',
+            description: 'Fetch any Foundry document (Actor, Item, Scene, RollTable, Playlist, Macro, ...) by UUID',
+            inputSchema: readArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe document read',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, documentType, uuid } = args;
+            const uuidError = checkUuidType(uuid, documentType);
+            if (uuidError) {
+                return formatToolError(new Error(uuidError), clientId);
+            }
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'entity',
+                    clientId,
+                    payload: { uuid },
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'document-create',
+        {
+            title: 'Create Document',
+            description: 'Create a world document of the given type',
+            inputSchema: createArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Document create',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, documentType, data } = args;
+            const payload = { entityType: documentType, data };
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'create',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'document-update',
+        {
+            title: 'Update Document',
+            description: 'Apply a patch to a document by UUID. With dryRun, only return the field-level diff.',
+            inputSchema: updateArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Document update',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, documentType, uuid, patch, dryRun } = args;
+            const uuidError = checkUuidType(uuid, documentType);
+            if (uuidError) {
+                return formatToolError(new Error(uuidError), clientId);
+            }
+
+            try {
+                const client = await resolveClient(clientId);
+                const current = await sendClientRequest({
+                    type: 'entity',
+                    clientId: client.getId(),
+                    payload: { uuid },
+                });
+                const changes = computeDocumentDiff(current.data ?? {}, patch);
+
+                if (dryRun || changes.length === 0) {
+                    const output = {
+                        clientId: current.clientId,
+                        requestId: current.requestId,
+                        data: { dryRun: true, uuid, changes } as DocumentUpdateResult
+                    };
+
+                    return {
+                        content: [{ type: 'text', text: changes.length ? 'Success' : 'No changes' }],
+                        structuredContent: output
+                    };
+                }
+
+                const response = await sendClientRequest({
+                    type: 'update',
+                    clientId: client.getId(),
+                    payload: { uuid, data: patch },
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: { dryRun: false, uuid, changes, document: response.data } as DocumentUpdateResult
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'document-delete',
+        {
+            title: 'Delete Document',
+            description: 'Delete a world document by UUID',
+            inputSchema: deleteArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Document delete',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, documentType, uuid } = args;
+            const uuidError = checkUuidType(uuid, documentType);
+            if (uuidError) {
+                return formatToolError(new Error(uuidError), clientId);
+            }
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'delete',
+                    clientId,
+                    payload: { uuid },
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'world-structure',
+        {
+            title: 'Browse World Structure',
+            description: 'Fetch the folder tree of the world, or the contents of a folder/compendium when path is given',
+            inputSchema: structureArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe world structure',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, types, path } = args;
+            const payload: Record<string, any> = {};
+            if (types?.length) payload.types = types;
+            if (path) payload.path = path;
+
+            try {
+                const response = await sendClientRequest({
+                    type: path ? 'contents' : 'structure',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as FolderNode[]
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'world-folder',
+        {
+            title: 'Folder CRUD',
+            description: 'Read, create or delete a folder',
+            inputSchema: folderArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Folder mutation',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, action, folderId, name, folderType, parentFolderId, deleteContents } = args;
+            const payload: Record<string, any> = {};
+
+            if (action === 'create') {
+                if (!name || !folderType) {
+                    return formatToolError(new Error('name and folderType are required to create a folder'), clientId);
+                }
+                payload.name = name;
+                payload.folderType = folderType;
+                if (parentFolderId) payload.parentFolderId = parentFolderId;
+            } else if (action === 'read') {
+                if (!folderId && (!name || !folderType)) {
+                    return formatToolError(new Error('folderId, or name and folderType, are required to read a folder'), clientId);
+                }
+
+                try {
+                    const client = await resolveClient(clientId);
+                    const { response, folder } = await findFolder(
+                        client.getId(),
+                        folderId ? { folderId } : { name: name!, folderType: folderType! },
+                    );
+                    if (!response || !folder) {
+                        throw new Error(`Folder '${folderId ?? name}' not found`);
+                    }
+
+                    const output = {
+                        clientId: response.clientId,
+                        requestId: response.requestId,
+                        data: folder
+                    };
+
+                    return {
+                        content: [{ type: 'text', text: 'Success' }],
+                        structuredContent: output
+                    };
+                } catch (err) {
+                    return formatToolError(err, clientId);
+                }
+            } else {
+                if (!folderId) {
+                    return formatToolError(new Error(`folderId is required to ${action} a folder`), clientId);
+                }
+                payload.folderId = folderId;
+                if (action === 'delete') payload.deleteAll = deleteContents;
+            }
+
+            const type = `${action}-folder` as const;
+
+            try {
+                const response = await sendClientRequest({
+                    type,
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as FolderNode
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
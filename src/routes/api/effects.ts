@@ -0,0 +1,277 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { resolveClient, sendClientRequest } from '../route-helpers.js';
+import { EncounterListResult } from './combat.js';
+import { z } from 'zod';
+
+/**
+ * ActiveEffect 지속시간 (Foundry EffectDurationData 기준).
+ *
+ * @property combat      라운드 진행을 추적할 Combat ID
+ * @property rounds      지속 라운드 수
+ * @property turns       지속 턴 수
+ * @property seconds     지속 시간 (초, world time 기준)
+ * @property startRound  시작 라운드
+ * @property startTurn   시작 턴
+ * @property remaining   남은 지속시간 (Foundry가 계산해 반환)
+ */
+export type EffectDuration = {
+    combat?: string | null;
+    rounds?: number | null;
+    turns?: number | null;
+    seconds?: number | null;
+    startRound?: number | null;
+    startTurn?: number | null;
+    remaining?: number | null;
+};
+
+export type ActiveEffectSummary = {
+    id: string;
+    uuid: string;
+    name: string;
+    icon?: string | null;
+    disabled: boolean;
+    temporary: boolean;
+    statuses: string[];
+    origin?: string | null;
+    duration?: EffectDuration;
+};
+
+export function registerEffectTools(server: McpServer): void {
+    const targetArgs = {
+        uuid: z.string().describe('Actor or token UUID'),
+    };
+
+    const listArgs = {
+        ...baseArgs,
+        ...targetArgs,
+        includeDisabled: z.boolean().optional().default(true),
+    };
+
+    const statusArgs = {
+        ...baseArgs,
+        ...targetArgs,
+        statusId: z.string().describe('Status condition ID, e.g. prone, poisoned, blessed (CONFIG.statusEffects)'),
+        active: z.boolean().optional().describe('Force on/off; omit to toggle'),
+        overlay: z.boolean().optional().default(false).describe('Show as large token overlay'),
+    };
+
+    const createArgs = {
+        ...baseArgs,
+        ...targetArgs,
+        name: z.string(),
+        icon: z.string().optional().describe('Icon path'),
+        description: z.string().optional(),
+        statuses: z.array(z.string()).optional().describe('Status IDs the effect also applies'),
+        changes: z.array(z.object({
+            key: z.string().describe('Attribute path, e.g. system.attributes.ac.bonus'),
+            mode: z.number().int().min(0).max(5).optional().default(2).describe('CONST.ACTIVE_EFFECT_MODES (2 = ADD)'),
+            value: z.string(),
+        })).optional(),
+        duration: z.object({
+            rounds: z.number().int().positive().optional(),
+            turns: z.number().int().positive().optional(),
+            seconds: z.number().int().positive().optional(),
+        }).optional(),
+        linkToCombat: z.boolean().optional().default(true).describe('Track round/turn duration against the active encounter'),
+        origin: z.string().optional().describe('UUID of the source item or actor'),
+    };
+
+    const deleteArgs = {
+        ...baseArgs,
+        ...targetArgs,
+        effectId: z.string(),
+    };
+
+    server.registerTool(
+        'effect-list',
+        {
+            title: 'Get Active Effects',
+            description: 'Fetch active effects and status conditions on an actor or token',
+            inputSchema: listArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe effect list',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, uuid, includeDisabled } = args;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'effect-list',
+                    clientId,
+                    payload: { uuid },
+                });
+
+                const effects: ActiveEffectSummary[] = Array.isArray(response.data) ? response.data : [];
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: includeDisabled ? effects : effects.filter(effect => !effect.disabled)
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'effect-status',
+        {
+            title: 'Toggle Status Condition',
+            description: 'Apply, remove or toggle a standard status condition (prone, poisoned, ...) on an actor or token',
+            inputSchema: statusArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Status condition toggle',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, uuid, statusId, active, overlay } = args;
+            const payload: Record<string, any> = { uuid, statusId, overlay };
+            if (typeof active === 'boolean') payload.active = active;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'effect-toggle-status',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as { statusId: string; active: boolean; effects: ActiveEffectSummary[] }
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'effect-create',
+        {
+            title: 'Create Active Effect',
+            description: 'Create a (temporary) ActiveEffect with attribute changes and a duration in rounds, turns or seconds',
+            inputSchema: createArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Active effect create',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, uuid, name, icon, description, statuses, changes, duration, linkToCombat, origin } = args;
+            const effectData: Record<string, any> = { name };
+            if (icon) effectData.icon = icon;
+            if (description) effectData.description = description;
+            if (statuses?.length) effectData.statuses = statuses;
+            if (changes?.length) effectData.changes = changes;
+            if (origin) effectData.origin = origin;
+
+            try {
+                const client = await resolveClient(clientId);
+
+                if (duration) {
+                    const effectDuration: EffectDuration = { ...duration };
+
+                    // 라운드/턴 지속시간은 활성 전투의 현재 라운드·턴을 시작점으로 묶어야 자동 만료된다
+                    if (linkToCombat && (duration.rounds || duration.turns)) {
+                        const encounters = await sendClientRequest({
+                            type: 'encounters',
+                            clientId: client.getId(),
+                            payload: {},
+                        });
+                        const list = (encounters.data as EncounterListResult | undefined)?.encounters ?? [];
+                        const combat = list.find(encounter => encounter.active && encounter.started);
+                        if (combat) {
+                            effectDuration.combat = combat.id;
+                            effectDuration.startRound = combat.round;
+                            effectDuration.startTurn = combat.turn ?? 0;
+                        }
+                    }
+                    effectData.duration = effectDuration;
+                }
+
+                const response = await sendClientRequest({
+                    type: 'effect-create',
+                    clientId: client.getId(),
+                    payload: { uuid, effectData },
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as ActiveEffectSummary
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'effect-delete',
+        {
+            title: 'Delete Active Effect',
+            description: 'Remove an ActiveEffect from an actor or token',
+            inputSchema: deleteArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Active effect delete',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, uuid, effectId } = args;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'effect-delete',
+                    clientId,
+                    payload: { uuid, effectId },
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
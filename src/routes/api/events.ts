@@ -0,0 +1,231 @@
+import express from 'express';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { FIX_outputArgs, formatToolError } from './common.js';
+import { resolveClient } from '../route-helpers.js';
+import { EventHub } from '../../core/EventHub.js';
+import { authenticateMCP } from '../../oAuth.js';
+import { log } from '../../utils/logger.js';
+import { cfg } from '../../config.js';
+import { z } from 'zod';
+
+const SSE_KEEPALIVE_MS = 25000;
+
+function eventResourceUri(subscriptionId: string): string {
+    return `foundry://events/${subscriptionId}`;
+}
+
+function eventStreamPath(subscriptionId: string): string {
+    return `${cfg.MCP_PATH}/events/${subscriptionId}`;
+}
+
+/**
+ * OAuth 로그인 이름으로 구독 소유자를 구분한다 (OAuth 미사용 시 모두 anonymous).
+ */
+function ownerOf(authInfo: { clientId?: string } | undefined): string {
+    return authInfo?.clientId ?? 'anonymous';
+}
+
+/**
+ * Streams a subscription's events as Server-Sent Events, starting with whatever is already buffered.
+ * Events delivered over the stream are removed from the buffer.
+ */
+export function registerEventRoutes(app: express.Application): void {
+    app.get(`${cfg.MCP_PATH}/events/:subscriptionId`, authenticateMCP, (req, res) => {
+        const owner = ownerOf((req as any).auth);
+        const { subscriptionId } = req.params;
+        const subscription = EventHub.getOwned(owner, subscriptionId);
+        if (!subscription) {
+            return res.status(404).json({ error: `Unknown event subscription: ${subscriptionId}` });
+        }
+
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.flushHeaders();
+
+        const write = (event: { sequence: number; type: string }) => {
+            res.write(`id: ${event.sequence}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        };
+
+        for (const event of EventHub.drain(owner, subscriptionId, cfg.EVENT_BUFFER_SIZE) ?? []) {
+            write(event);
+        }
+        const detach = EventHub.listen(subscriptionId, event => {
+            write(event);
+            EventHub.drain(owner, subscriptionId, cfg.EVENT_BUFFER_SIZE);
+        });
+        const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEPALIVE_MS);
+
+        log.info(`Event stream opened for subscription ${subscriptionId}`);
+        req.on('close', () => {
+            clearInterval(keepAlive);
+            detach();
+            log.info(`Event stream closed for subscription ${subscriptionId}`);
+        });
+    });
+}
+
+export function registerEventTools(server: McpServer): void {
+    const subscribeArgs = {
+        clientId: z.string().optional().describe('Only events from this world (client ID, world ID or name); omit for all worlds'),
+        types: z.array(z.string()).optional()
+            .describe('Foundry message types to receive (e.g. chat, combat and token update events); omit for all'),
+    };
+
+    const pollArgs = {
+        subscriptionId: z.string(),
+        max: z.number().int().positive().max(200).optional().default(50),
+    };
+
+    const unsubscribeArgs = {
+        subscriptionId: z.string(),
+    };
+
+    // MCP transport가 요청마다 새로 만드는 stateless 방식이라 resource-updated 알림은 보내지 않는다.
+    // 이벤트는 events-poll, 아래 리소스 읽기, 또는 SSE 스트림으로만 받는다
+    server.registerResource(
+        'foundry-events',
+        new ResourceTemplate('foundry://events/{subscriptionId}', { list: undefined }),
+        {
+            title: 'Foundry Event Subscription',
+            description: 'Buffered Foundry events of a subscription (read does not consume them; use events-poll)',
+            mimeType: 'application/json',
+        },
+        async (uri, variables, extra) => {
+            const subscriptionId = String(variables.subscriptionId);
+            const subscription = EventHub.getOwned(ownerOf(extra.authInfo), subscriptionId);
+            if (!subscription) {
+                throw new Error(`Unknown event subscription: ${subscriptionId}`);
+            }
+            return {
+                contents: [
+                    {
+                        uri: uri.href,
+                        mimeType: 'application/json',
+                        text: JSON.stringify({ ...EventHub.describe(subscription), events: subscription.buffer }),
+                    },
+                ],
+            };
+        }
+    );
+
+    server.registerTool(
+        'events-subscribe',
+        {
+            title: 'Subscribe to Foundry Events',
+            description: 'Start receiving Foundry-pushed events (new chat messages, combat turns, token updates). Read them with events-poll, the returned resource, or the SSE stream URL; no resource-updated notifications are sent.',
+            inputSchema: subscribeArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Event subscription',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args, extra) => {
+            const { clientId, types } = args;
+
+            try {
+                const clientIds = clientId ? [(await resolveClient(clientId)).getId()] : undefined;
+                const subscription = EventHub.subscribe(ownerOf(extra.authInfo), { clientIds, types });
+
+                const output = {
+                    clientId: clientIds?.[0] ?? 'RelaySelf(No clientID)',
+                    requestId: 'RelaySelf(No RequestID)',
+                    data: {
+                        ...subscription,
+                        resourceUri: eventResourceUri(subscription.id),
+                        streamUrl: `${cfg.BASE_URL}${eventStreamPath(subscription.id)}`,
+                    }
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'events-poll',
+        {
+            title: 'Poll Foundry Events',
+            description: 'Take buffered events from a subscription, oldest first',
+            inputSchema: pollArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Event poll',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args, extra) => {
+            const { subscriptionId, max } = args;
+            const owner = ownerOf(extra.authInfo);
+
+            try {
+                const events = EventHub.drain(owner, subscriptionId, max ?? 50);
+                if (!events) {
+                    throw new Error(`Unknown event subscription: ${subscriptionId}`);
+                }
+                const subscription = EventHub.getOwned(owner, subscriptionId)!;
+
+                const output = {
+                    clientId: 'RelaySelf(No clientID)',
+                    requestId: 'RelaySelf(No RequestID)',
+                    data: { ...EventHub.describe(subscription), events }
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, 'None');
+            }
+        },
+    );
+
+    server.registerTool(
+        'events-unsubscribe',
+        {
+            title: 'Unsubscribe from Foundry Events',
+            description: 'Stop a Foundry event subscription and discard its buffer',
+            inputSchema: unsubscribeArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Event unsubscribe',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: true
+            }
+        },
+        async (args, extra) => {
+            const { subscriptionId } = args;
+
+            try {
+                if (!EventHub.unsubscribe(ownerOf(extra.authInfo), subscriptionId)) {
+                    throw new Error(`Unknown event subscription: ${subscriptionId}`);
+                }
+
+                const output = {
+                    clientId: 'RelaySelf(No clientID)',
+                    requestId: 'RelaySelf(No RequestID)',
+                    data: { subscriptionId, removed: true }
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, 'None');
+            }
+        },
+    );
+}
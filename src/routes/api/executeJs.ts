@@ -0,0 +1,124 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { resolveClient, sendClientRequest } from '../route-helpers.js';
+import { appendAuditRecord, AuditRecord } from '../../utils/auditLog.js';
+import { cfg } from '../../config.js';
+import { z } from 'zod';
+
+const MAX_SCRIPT_LENGTH = 20_000;
+
+/**
+ * Appends an audit record for a script that has already been decided or run; failures are only logged.
+ */
+function recordOutcome(record: AuditRecord): Promise<void> {
+    // appendAuditRecord가 실패를 이미 로그로 남긴다
+    return appendAuditRecord(cfg.EXECUTE_JS_AUDIT_LOG, record).catch(() => undefined);
+}
+
+export function registerExecuteJsTools(server: McpServer): void {
+    const executeArgs = {
+        ...baseArgs,
+        script: z.string().min(1).max(MAX_SCRIPT_LENGTH).describe('JavaScript executed as an async function body in the GM client'),
+        requireConfirmation: z.boolean().optional().default(false).describe('Ask the GM to approve the script in Foundry before it runs'),
+    };
+
+    server.registerTool(
+        'execute-js',
+        {
+            title: 'Execute JavaScript',
+            description: 'Run an ad-hoc script in Foundry. Disabled unless the relay allows the authenticated caller; every call is audited.',
+            inputSchema: executeArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Script execution',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: false
+            }
+        },
+        async (args, extra) => {
+            const { clientId, script } = args;
+            const caller = extra.authInfo?.clientId ?? 'anonymous';
+            const requireConfirmation = cfg.EXECUTE_JS_REQUIRE_CONFIRMATION || args.requireConfirmation === true;
+            const audit = {
+                action: 'execute-js',
+                caller,
+                script,
+                requireConfirmation,
+            };
+
+            try {
+                const client = await resolveClient(clientId);
+
+                if (!cfg.EXECUTE_JS_ALLOWED_CALLERS.includes(caller)) {
+                    await recordOutcome({
+                        ...audit,
+                        timestamp: new Date().toISOString(),
+                        clientId: client.getId(),
+                        outcome: 'refused',
+                    });
+                    return formatToolError({
+                        error: `execute-js is not allowed for caller ${caller}`,
+                        allowed: false,
+                    }, client.getId());
+                }
+
+                // 실행 전에 시도 기록을 먼저 남기고, 기록할 수 없으면 실행하지 않는다
+                try {
+                    await appendAuditRecord(cfg.EXECUTE_JS_AUDIT_LOG, {
+                        ...audit,
+                        timestamp: new Date().toISOString(),
+                        clientId: client.getId(),
+                        outcome: 'attempt',
+                    });
+                } catch {
+                    return formatToolError({
+                        error: 'execute-js refused: the audit log could not be written',
+                        allowed: false,
+                    }, client.getId());
+                }
+
+                try {
+                    const response = await sendClientRequest({
+                        type: 'execute-js',
+                        clientId: client.getId(),
+                        payload: { script, requireConfirmation, caller },
+                        timeout: requireConfirmation ? cfg.EXECUTE_JS_CONFIRM_TIMEOUT_MS : undefined,
+                    });
+
+                    await recordOutcome({
+                        ...audit,
+                        timestamp: new Date().toISOString(),
+                        clientId: client.getId(),
+                        requestId: response.requestId,
+                        outcome: 'success',
+                        result: response.data,
+                    });
+
+                    const output = {
+                        clientId: response.clientId,
+                        requestId: response.requestId,
+                        data: response.data
+                    };
+
+                    return {
+                        content: [{ type: 'text', text: 'Success' }],
+                        structuredContent: output
+                    };
+                } catch (err) {
+                    await recordOutcome({
+                        ...audit,
+                        timestamp: new Date().toISOString(),
+                        clientId: client.getId(),
+                        requestId: (err as any)?.requestId,
+                        outcome: 'error',
+                        error: err instanceof Error ? err.message : (err as any)?.error ?? String(err),
+                    });
+                    throw err;
+                }
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
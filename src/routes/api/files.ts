@@ -0,0 +1,284 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { sendClientRequest } from '../route-helpers.js';
+import { cfg } from '../../config.js';
+import { promises as fs } from 'fs';
+import path from 'path';
+import mime from 'mime';
+import { z } from 'zod';
+
+const FILE_SOURCES = ['data', 'public', 's3'] as const;
+
+/**
+ * file-system 응답의 디렉터리 목록.
+ *
+ * @property path   조회한 디렉터리 경로
+ * @property dirs   하위 디렉터리 경로
+ * @property files  파일 경로
+ */
+export type FileBrowseResult = {
+    path: string;
+    dirs: string[];
+    files: string[];
+};
+
+export type FileDownloadResult = {
+    path: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+};
+
+/**
+ * Normalizes a Foundry data path and rejects traversal, absolute paths and URLs.
+ * @param rawPath Path relative to the Foundry file source root.
+ * @returns Normalized POSIX path ('' for the root).
+ */
+function sanitizeFoundryPath(rawPath: string): string {
+    if (rawPath.includes('\0') || rawPath.includes('://')) {
+        throw new Error(`Invalid path: ${rawPath}`);
+    }
+    const unified = rawPath.replace(/\\/g, '/');
+    if (unified.startsWith('/') || /^[a-zA-Z]:/.test(unified)) {
+        throw new Error(`Absolute paths are not allowed: ${rawPath}`);
+    }
+
+    const normalized = path.posix.normalize(unified);
+    if (normalized === '..' || normalized.startsWith('../')) {
+        throw new Error(`Path traversal is not allowed: ${rawPath}`);
+    }
+    return normalized === '.' ? '' : normalized.replace(/\/$/, '');
+}
+
+function sanitizeFileName(fileName: string): string {
+    if (!fileName || fileName.includes('/') || fileName.includes('\\') || fileName.includes('\0') || fileName === '.' || fileName === '..') {
+        throw new Error(`Invalid file name: ${fileName}`);
+    }
+    return fileName;
+}
+
+function assertSize(size: number): void {
+    if (size > cfg.FILE_MAX_BYTES) {
+        throw new Error(`File size ${size} bytes exceeds the relay limit of ${cfg.FILE_MAX_BYTES} bytes`);
+    }
+}
+
+/**
+ * Reads a file previously generated by the relay (image or TTS) from its output directory.
+ * @param assetUrl URL returned by generate-image or the TTS tools.
+ * @returns File buffer and name.
+ */
+async function readGeneratedAsset(assetUrl: string): Promise<{ buffer: Buffer; fileName: string }> {
+    const pathname = new URL(assetUrl, cfg.BASE_URL).pathname;
+    const outputDirs: [string, string][] = [
+        [cfg.IMAGE_PATH, cfg.IMAGE_OUTPUT_DIR],
+        [cfg.AUDIO_PATH, cfg.AUDIO_OUTPUT_DIR],
+    ];
+
+    for (const [urlPath, outputDir] of outputDirs) {
+        if (!pathname.startsWith(`${urlPath}/`)) continue;
+        const fileName = sanitizeFileName(decodeURIComponent(pathname.slice(urlPath.length + 1)));
+        const filePath = path.join(process.cwd(), cfg.FOUNDRY_DATA_PATH, outputDir, fileName);
+        const stat = await fs.stat(filePath);
+        assertSize(stat.size);
+        return { buffer: await fs.readFile(filePath), fileName };
+    }
+    throw new Error(`Not a relay generated asset: ${assetUrl}`);
+}
+
+export function registerFileTools(server: McpServer): void {
+    const browseArgs = {
+        ...baseArgs,
+        path: z.string().optional().default('').describe('Directory relative to the file source root'),
+        source: z.enum(FILE_SOURCES).optional().default('data'),
+        recursive: z.boolean().optional().default(false),
+    };
+
+    const downloadArgs = {
+        ...baseArgs,
+        path: z.string().describe('File path relative to the file source root'),
+        source: z.enum(FILE_SOURCES).optional().default('data'),
+    };
+
+    const uploadArgs = {
+        ...baseArgs,
+        path: z.string().describe('Target directory relative to the file source root'),
+        filename: z.string().optional().describe('Target file name (defaults to the generated asset name)'),
+        source: z.enum(FILE_SOURCES).optional().default('data'),
+        text: z.string().optional().describe('UTF-8 text content'),
+        base64: z.string().optional().describe('Base64 encoded binary content'),
+        generatedAssetUrl: z.string().optional().describe('URL of an image/audio file generated by this relay'),
+        overwrite: z.boolean().optional().default(false),
+    };
+
+    server.registerTool(
+        'file-browse',
+        {
+            title: 'Browse Foundry Files',
+            description: 'List directories and files in the Foundry data directory',
+            inputSchema: browseArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe file browse',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, source, recursive } = args;
+
+            try {
+                const payload = { path: sanitizeFoundryPath(args.path ?? ''), source, recursive };
+                const response = await sendClientRequest({
+                    type: 'file-system',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as FileBrowseResult
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'file-download',
+        {
+            title: 'Download Foundry File',
+            description: 'Download a file from the Foundry data directory as an embedded resource',
+            inputSchema: downloadArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe file download',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, source } = args;
+
+            try {
+                const filePath = sanitizeFoundryPath(args.path);
+                const response = await sendClientRequest({
+                    type: 'download-file',
+                    clientId,
+                    payload: { path: filePath, source, maxBytes: cfg.FILE_MAX_BYTES },
+                    timeout: 30000,
+                });
+
+                const base64Data = String(response.fileData ?? '').split(',')[1] ?? '';
+                const size = Buffer.from(base64Data, 'base64').length;
+                assertSize(size);
+
+                const filename = response.filename ?? path.posix.basename(filePath);
+                const mimeType = response.mimeType ?? mime.getType(filename) ?? 'application/octet-stream';
+                const file: FileDownloadResult = { path: filePath, filename, mimeType, size };
+
+                const output = {
+                    clientId: response.clientId ?? clientId,
+                    requestId: response.requestId,
+                    data: file
+                };
+
+                return {
+                    content: [{
+                        type: 'resource',
+                        resource: {
+                            uri: `foundry-file://${source}/${filePath}`,
+                            mimeType,
+                            blob: base64Data,
+                        },
+                    }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'file-upload',
+        {
+            title: 'Upload File to Foundry',
+            description: 'Upload text, base64 content or a relay-generated image/audio file into a Foundry directory',
+            inputSchema: uploadArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'File upload',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, source, text, base64, generatedAssetUrl, overwrite } = args;
+            const provided = [text, base64, generatedAssetUrl].filter(value => value !== undefined);
+            if (provided.length !== 1) {
+                return formatToolError(new Error('Provide exactly one of text, base64 or generatedAssetUrl'), clientId);
+            }
+
+            try {
+                const targetDir = sanitizeFoundryPath(args.path);
+                let buffer: Buffer;
+                let fileName = args.filename;
+
+                if (generatedAssetUrl) {
+                    const asset = await readGeneratedAsset(generatedAssetUrl);
+                    buffer = asset.buffer;
+                    fileName ??= asset.fileName;
+                } else {
+                    buffer = text !== undefined ? Buffer.from(text, 'utf8') : Buffer.from(base64 ?? '', 'base64');
+                }
+
+                if (!fileName) {
+                    throw new Error('filename is required for text or base64 uploads');
+                }
+                sanitizeFileName(fileName);
+                assertSize(buffer.length);
+
+                const mimeType = mime.getType(fileName) ?? 'application/octet-stream';
+                const payload = {
+                    path: targetDir,
+                    filename: fileName,
+                    source,
+                    overwrite,
+                    mimeType,
+                    fileData: `data:${mimeType};base64,${buffer.toString('base64')}`,
+                };
+
+                const response = await sendClientRequest({
+                    type: 'upload-file',
+                    clientId,
+                    payload,
+                    timeout: 30000,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data ?? { path: path.posix.join(targetDir, fileName), size: buffer.length }
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
@@ -0,0 +1,123 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { resolveClient, sendClientRequest } from '../route-helpers.js';
+import { z } from 'zod';
+
+/** 한 번의 호출로 처리할 수 있는 최대 대상 수 */
+const MAX_HEALTH_TARGETS = 20;
+
+const HEALTH_REQUEST_TYPES = {
+    damage: 'decrease',
+    heal: 'increase',
+    kill: 'kill',
+} as const;
+
+/**
+ * 대상별 HP 변경 결과.
+ *
+ * @property uuid      대상 토큰/액터 UUID
+ * @property name      대상 이름 (Foundry가 반환할 때)
+ * @property success   적용 성공 여부
+ * @property before    변경 전 값
+ * @property after     변경 후 값
+ * @property defeated  전투 불능 처리 여부
+ * @property error     실패 사유
+ */
+export type HealthChangeResult = {
+    uuid: string;
+    name?: string;
+    success: boolean;
+    before?: number | null;
+    after?: number | null;
+    defeated?: boolean;
+    error?: string;
+};
+
+export function registerHealthTools(server: McpServer): void {
+    const healthArgs = {
+        ...baseArgs,
+        action: z.enum(['damage', 'heal', 'kill']),
+        targets: z.array(z.object({
+            uuid: z.string().describe('Token or actor UUID'),
+            amount: z.number().nonnegative().optional().describe('Overrides the shared amount for this target'),
+        })).nonempty().max(MAX_HEALTH_TARGETS),
+        amount: z.number().nonnegative().optional().describe('Amount applied to every target (damage/heal)'),
+        attribute: z.string().optional().default('system.attributes.hp.value').describe('Attribute path to modify'),
+    };
+
+    server.registerTool(
+        'token-health',
+        {
+            title: 'Apply Damage, Healing or Defeat',
+            description: `Apply damage or healing, or mark defeated, for up to ${MAX_HEALTH_TARGETS} tokens/actors in one call. Returns before/after values per target.`,
+            inputSchema: healthArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'HP mutation',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, action, targets, amount, attribute } = args;
+            if (action !== 'kill' && targets.some(target => target.amount === undefined) && amount === undefined) {
+                return formatToolError(new Error(`amount is required for ${action}`), clientId);
+            }
+
+            try {
+                const client = await resolveClient(clientId);
+                const results: HealthChangeResult[] = [];
+
+                // 대상별로 순차 전송해 Foundry 쪽 업데이트 순서를 보장한다
+                for (const target of targets) {
+                    const payload: Record<string, any> = { uuid: target.uuid };
+                    if (action !== 'kill') {
+                        payload.attribute = attribute;
+                        payload.amount = target.amount ?? amount;
+                    }
+
+                    try {
+                        const response = await sendClientRequest({
+                            type: HEALTH_REQUEST_TYPES[action],
+                            clientId: client.getId(),
+                            payload,
+                        });
+                        const data = response.data ?? {};
+                        results.push({
+                            uuid: target.uuid,
+                            name: data.name,
+                            success: true,
+                            before: data.before ?? data.oldValue ?? null,
+                            after: data.after ?? data.newValue ?? null,
+                            defeated: data.defeated,
+                        });
+                    } catch (err) {
+                        results.push({
+                            uuid: target.uuid,
+                            success: false,
+                            error: err instanceof Error ? err.message : String((err as any)?.error ?? err),
+                        });
+                    }
+                }
+
+                if (results.every(result => !result.success)) {
+                    return formatToolError({ error: `${action} failed for every target`, data: results }, client.getId());
+                }
+
+                const output = {
+                    clientId: client.getId(),
+                    requestId: `${HEALTH_REQUEST_TYPES[action]}_batch`,
+                    data: results
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
@@ -0,0 +1,142 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { sendClientRequest } from '../route-helpers.js';
+import { cfg } from '../../config.js';
+import { z } from 'zod';
+
+/**
+ * macros 응답의 매크로 요약.
+ *
+ * @property uuid     Macro UUID
+ * @property name     매크로 이름
+ * @property type     script 또는 chat
+ * @property folder   폴더 이름 (있을 때)
+ * @property allowed  relay 허용 목록(MACRO_ALLOWLIST) 포함 여부
+ */
+export type MacroSummary = {
+    uuid: string;
+    name: string;
+    type: 'script' | 'chat' | string;
+    folder?: string | null;
+    allowed: boolean;
+};
+
+function isMacroAllowed(uuid: string): boolean {
+    return cfg.MACRO_ALLOWLIST.includes(uuid);
+}
+
+export function registerMacroTools(server: McpServer): void {
+    const listArgs = {
+        ...baseArgs,
+        allowedOnly: z.boolean().optional().default(false).describe('Only list macros on the relay allowlist'),
+    };
+
+    const executeArgs = {
+        ...baseArgs,
+        uuid: z.string().describe('Macro UUID, e.g. Macro.abc123'),
+        args: z.record(z.string(), z.any()).optional().describe('Arguments passed to the macro as scope'),
+    };
+
+    server.registerTool(
+        'macro-list',
+        {
+            title: 'Get Macro List',
+            description: 'Fetch world macros and whether each may be executed through the relay',
+            inputSchema: listArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe macro list',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, allowedOnly } = args;
+            const payload: Record<string, any> = {};
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'macros',
+                    clientId,
+                    payload,
+                });
+
+                const rawMacros: any[] = Array.isArray(response.data) ? response.data : [];
+                const macros: MacroSummary[] = rawMacros
+                    .map(macro => ({
+                        uuid: macro.uuid,
+                        name: macro.name,
+                        type: macro.type,
+                        folder: macro.folder ?? null,
+                        allowed: isMacroAllowed(macro.uuid),
+                    }))
+                    .filter(macro => !allowedOnly || macro.allowed);
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: macros
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'macro-execute',
+        {
+            title: 'Execute Macro',
+            description: 'Execute an allowlisted macro by UUID with optional arguments',
+            inputSchema: executeArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Macro execution',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, uuid, args: macroArgs } = args;
+
+            if (!isMacroAllowed(uuid)) {
+                return formatToolError({
+                    error: `Macro ${uuid} is not on the relay allowlist`,
+                    uuid,
+                    allowed: false,
+                }, clientId);
+            }
+
+            const payload: Record<string, any> = { uuid };
+            if (macroArgs) payload.args = macroArgs;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'macro-execute',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
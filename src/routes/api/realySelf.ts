@@ -1,7 +1,8 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
 import { sendClientRequest } from '../route-helpers.js';
-import { createImageGen } from '../../utils/assetGenerator.js';
+import { createDialogueTTS, createImageGen } from '../../utils/assetGenerator.js';
+import { VoiceActor, StyleTone } from '../../types/types.js';
 import { z } from 'zod';
 import { readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
@@ -13,6 +14,20 @@ export function registerRelaySelfTools(server: McpServer): void {
         imageprompt: z.string()
     };
 
+    const dialogueArgs = {
+        speakers: z.array(z.object({
+            name: z.string(),
+            voiceActor: z.nativeEnum(VoiceActor),
+        })).nonempty().max(10).describe('Speaker name → voice mapping'),
+        lines: z.array(z.object({
+            speaker: z.string().describe('Name from speakers'),
+            text: z.string(),
+            styleTone: z.nativeEnum(StyleTone).optional().default(StyleTone.Normal),
+        })).nonempty().max(50),
+        gapMs: z.number().int().nonnegative().max(5000).optional().default(300).describe('Silence between lines; 0 with exactly two speakers renders the script in a single multi-speaker call'),
+        temperature: z.number().min(0).max(2).optional().default(1),
+    };
+
     const here = path.dirname(fileURLToPath(import.meta.url));
     const HTML = readFileSync(path.join(here, "kanban.js"), "utf8");
     const CSS = readFileSync(path.join(here, "kanban.css"), "utf8");
@@ -88,4 +103,48 @@ export function registerRelaySelfTools(server: McpServer): void {
             }
         },
     );
+
+    server.registerTool(
+        'generate-dialogue-audio',
+        {
+            title: 'Generate Dialogue Audio',
+            description: 'Synthesize a multi-speaker script (speaker → voice, per-line tone) into one audio file and return its URL; play it with play-sound',
+            inputSchema: dialogueArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Dialogue TTS',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { speakers, lines, gapMs, temperature } = args;
+            const voices = new Map(speakers.map(speaker => [speaker.name, speaker.voiceActor]));
+            const unknown = [...new Set(lines.map(line => line.speaker))].filter(speaker => !voices.has(speaker));
+            if (unknown.length) {
+                return formatToolError(new Error(`No voice mapped for speaker(s): ${unknown.join(', ')}`), 'None');
+            }
+
+            try {
+                const audioUrl = await createDialogueTTS(lines, voices, temperature ?? 1, gapMs ?? 300);
+                if (!audioUrl) {
+                    throw new Error('Dialogue TTS generation failed');
+                }
+
+                const output = {
+                    clientId: 'RelaySelf(No clientID)',
+                    requestId: 'RelaySelf(No RequestID)',
+                    data: { url: audioUrl, lines: lines.length, speakers: [...voices.keys()] }
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, 'None');
+            }
+        },
+    );
 };
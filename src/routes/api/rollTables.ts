@@ -0,0 +1,222 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { sendClientRequest } from '../route-helpers.js';
+import { z } from 'zod';
+
+export type RollTableSummary = {
+    id: string;
+    uuid: string;
+    name: string;
+    formula: string;
+    results: number;
+    replacement: boolean;
+    folder?: string | null;
+};
+
+/**
+ * 테이블 결과 한 줄.
+ *
+ * @property range        주사위 범위 [min, max]
+ * @property text         결과 텍스트
+ * @property weight       가중치
+ * @property documentUuid 연결된 문서 UUID (아이템, 액터 등)
+ * @property drawn        replacement 없는 테이블에서 이미 뽑혔는지 여부
+ */
+export type RollTableResultSummary = {
+    id?: string;
+    range: [number, number];
+    text: string;
+    weight: number;
+    documentUuid?: string | null;
+    drawn?: boolean;
+};
+
+export type RollTableDrawResult = {
+    tableUuid: string;
+    roll: { formula: string; total: number };
+    results: RollTableResultSummary[];
+};
+
+/**
+ * Converts weighted entries into contiguous roll ranges and the matching die formula.
+ * @param entries Results in table order with positive integer weights.
+ * @returns Formula covering the full range and results with computed ranges.
+ */
+function buildWeightedResults(entries: { text: string; weight: number; documentUuid?: string }[]): {
+    formula: string;
+    results: RollTableResultSummary[];
+} {
+    let cursor = 1;
+    const results = entries.map(entry => {
+        const range: [number, number] = [cursor, cursor + entry.weight - 1];
+        cursor += entry.weight;
+        return {
+            range,
+            text: entry.text,
+            weight: entry.weight,
+            documentUuid: entry.documentUuid ?? null,
+        };
+    });
+    return { formula: `1d${cursor - 1}`, results };
+}
+
+export function registerRollTableTools(server: McpServer): void {
+    const listArgs = {
+        ...baseArgs,
+    };
+
+    const drawArgs = {
+        ...baseArgs,
+        tableUuid: z.string().describe('RollTable UUID, e.g. RollTable.abc123'),
+        count: z.number().int().positive().max(10).optional().default(1),
+        rollMode: z.enum(['publicroll', 'gmroll', 'blindroll', 'selfroll']).optional().default('gmroll'),
+        displayChat: z.boolean().optional().default(true).describe('Post the drawn results to chat'),
+    };
+
+    const createArgs = {
+        ...baseArgs,
+        name: z.string(),
+        description: z.string().optional(),
+        results: z.array(z.object({
+            text: z.string(),
+            weight: z.number().int().positive().optional().default(1),
+            documentUuid: z.string().optional().describe('Link the result to an Item/Actor/JournalEntry'),
+        })).nonempty().max(200),
+        replacement: z.boolean().optional().default(true).describe('Allow the same result to be drawn again'),
+        folderId: z.string().optional(),
+    };
+
+    server.registerTool(
+        'rolltable-list',
+        {
+            title: 'Get Roll Tables',
+            description: 'Fetch roll tables in the world',
+            inputSchema: listArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe roll table list',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId } = args;
+            const payload: Record<string, any> = {};
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'rolltable-list',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as RollTableSummary[]
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'rolltable-draw',
+        {
+            title: 'Draw from Roll Table',
+            description: 'Roll on a table and return the drawn results',
+            inputSchema: drawArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Roll table draw',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, tableUuid, count, rollMode, displayChat } = args;
+            const payload = { tableUuid, count, rollMode, displayChat };
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'rolltable-draw',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as RollTableDrawResult | RollTableDrawResult[]
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'rolltable-create',
+        {
+            title: 'Create Roll Table',
+            description: 'Create a roll table from weighted results; ranges and the die formula are computed from the weights',
+            inputSchema: createArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Roll table create',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, name, description, results, replacement, folderId } = args;
+            const { formula, results: weightedResults } = buildWeightedResults(
+                results.map(result => ({ ...result, weight: result.weight ?? 1 }))
+            );
+
+            const payload: Record<string, any> = {
+                name,
+                formula,
+                replacement,
+                results: weightedResults,
+            };
+            if (description) payload.description = description;
+            if (folderId) payload.folderId = folderId;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'rolltable-create',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as RollTableSummary
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
@@ -0,0 +1,253 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { sendClientRequest } from '../route-helpers.js';
+import { TokenSummary } from './search.js';
+import { z } from 'zod';
+
+export type SceneListItem = {
+    id: string;
+    uuid: string;
+    name: string;
+    active: boolean;
+    viewed: boolean;
+    navigation: boolean;
+    folder?: string | null;
+};
+
+/**
+ * scene-describe 응답 (LLM 내레이션용 씬 요약).
+ *
+ * @property width / height  씬 크기 (px, padding 제외)
+ * @property sceneX / sceneY padding을 포함한 캔버스에서 씬 원점의 위치 (px)
+ * @property grid            격자 크기(px)/타입/한 칸 거리와 단위
+ * @property darkness        0(밝음) ~ 1(어두움)
+ * @property lights          AmbientLight 수
+ * @property walls           벽 수와 그중 문 수
+ * @property notes           맵 노트 (연결된 저널 이름 포함)
+ * @property tokens          씬 토큰 목록 (search-tokens와 동일한 형태)
+ */
+export type SceneDescription = {
+    id: string;
+    uuid: string;
+    name: string;
+    active: boolean;
+    width: number;
+    height: number;
+    sceneX?: number;
+    sceneY?: number;
+    grid: { size: number; type: number; distance: number; units: string };
+    darkness: number;
+    weather?: string | null;
+    lights: number;
+    walls: { total: number; doors: number };
+    notes: { text: string; entryName?: string | null; x: number; y: number }[];
+    tokens: TokenSummary[];
+};
+
+const DISPOSITION_LABELS: Record<number, string> = {
+    [-2]: 'secret',
+    [-1]: 'hostile',
+    0: 'neutral',
+    1: 'friendly',
+};
+
+/**
+ * Converts a token's canvas position (px, padding included) to a grid cell relative to the scene origin.
+ */
+export function toGridCell(scene: SceneDescription, position: { x: number; y: number }): { col: number; row: number } {
+    const size = scene.grid.size || 1;
+    return {
+        col: Math.floor((position.x - (scene.sceneX ?? 0)) / size),
+        row: Math.floor((position.y - (scene.sceneY ?? 0)) / size),
+    };
+}
+
+/**
+ * Converts a grid cell relative to the scene origin to the canvas position (px) of its top-left corner.
+ */
+export function toCanvasPosition(scene: SceneDescription, cell: { col: number; row: number }): { x: number; y: number } {
+    const size = scene.grid.size || 1;
+    return {
+        x: (scene.sceneX ?? 0) + cell.col * size,
+        y: (scene.sceneY ?? 0) + cell.row * size,
+    };
+}
+
+/**
+ * Renders a scene description as plain prose for an LLM narrator.
+ * @param scene Scene data returned by the Foundry client.
+ * @returns Multi-line textual description.
+ */
+function renderSceneText(scene: SceneDescription): string {
+    const { grid } = scene;
+    const columns = grid.size ? Math.round(scene.width / grid.size) : 0;
+    const rows = grid.size ? Math.round(scene.height / grid.size) : 0;
+    const lighting = scene.darkness >= 0.75 ? 'dark' : scene.darkness >= 0.25 ? 'dim' : 'bright';
+
+    const lines = [
+        `Scene "${scene.name}"${scene.active ? ' (active)' : ''}: ${columns}x${rows} grid squares of ${grid.distance} ${grid.units}.`,
+        `Lighting is ${lighting} (darkness ${scene.darkness}) with ${scene.lights} light source(s)${scene.weather ? `; weather: ${scene.weather}` : ''}.`,
+        `${scene.walls.total} wall segment(s), ${scene.walls.doors} of them doors.`,
+    ];
+
+    if (scene.notes.length) {
+        lines.push(`Map notes: ${scene.notes.map(note => note.entryName ? `${note.text} (${note.entryName})` : note.text).join('; ')}.`);
+    }
+
+    if (scene.tokens.length) {
+        lines.push('Tokens:');
+        for (const token of scene.tokens) {
+            const { col, row } = toGridCell(scene, token);
+            const hp = token.hp && token.hp.value !== null ? `, HP ${token.hp.value}/${token.hp.max ?? '?'}` : '';
+            const hidden = token.hidden ? ', hidden' : '';
+            lines.push(`- ${token.name} [${DISPOSITION_LABELS[token.disposition] ?? 'unknown'}] at (${col}, ${row})${hp}${hidden}`);
+        }
+    } else {
+        lines.push('No tokens are placed.');
+    }
+    return lines.join('\n');
+}
+
+export function registerSceneTools(server: McpServer): void {
+    const listArgs = {
+        ...baseArgs,
+    };
+
+    const activateArgs = {
+        ...baseArgs,
+        sceneId: z.string().describe('Scene ID or UUID'),
+        mode: z.enum(['activate', 'view', 'preload']).optional().default('activate')
+            .describe('activate: move all players; view: GM only; preload: cache assets for players'),
+    };
+
+    const describeArgs = {
+        ...baseArgs,
+        sceneId: z.string().optional().describe('Defaults to the active scene'),
+    };
+
+    server.registerTool(
+        'scene-list',
+        {
+            title: 'Get Scene List',
+            description: 'Fetch all scenes with active/viewed flags',
+            inputSchema: listArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe scene list',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId } = args;
+            const payload: Record<string, any> = {};
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'scene-list',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as SceneListItem[]
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'scene-activate',
+        {
+            title: 'Activate Scene',
+            description: 'Activate a scene for all players, view it as GM, or preload it',
+            inputSchema: activateArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Scene activation',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, sceneId, mode } = args;
+            const payload = { sceneId, mode };
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'scene-activate',
+                    clientId,
+                    payload,
+                    timeout: 30000,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as SceneListItem
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'scene-describe',
+        {
+            title: 'Describe Scene',
+            description: 'Describe a scene (grid, lighting, walls, notes and token roster) as narrator-ready text',
+            inputSchema: describeArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe scene description',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, sceneId } = args;
+            const payload: Record<string, any> = {};
+            if (sceneId) payload.sceneId = sceneId;
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'scene-describe',
+                    clientId,
+                    payload,
+                });
+
+                const scene = response.data as SceneDescription;
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: scene
+                };
+
+                return {
+                    content: [{ type: 'text', text: renderSceneText(scene) }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
@@ -1,8 +1,105 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
 import { sendClientRequest } from '../route-helpers.js';
+import { z } from 'zod';
+
+/**
+ * 씬 토큰 요약 (search-tokens, token-select 등 토큰 도구가 공통으로 반환하는 형태).
+ *
+ * @property id           Token ID
+ * @property uuid         Token UUID (Scene.x.Token.y)
+ * @property name         토큰 이름
+ * @property actorUuid    연결된 액터 UUID
+ * @property x            좌상단 x 좌표 (px)
+ * @property y            좌상단 y 좌표 (px)
+ * @property width        가로 크기 (grid 칸 수)
+ * @property height       세로 크기 (grid 칸 수)
+ * @property elevation    고도
+ * @property disposition  CONST.TOKEN_DISPOSITIONS (-2 SECRET, -1 HOSTILE, 0 NEUTRAL, 1 FRIENDLY)
+ * @property hidden       GM 전용 숨김 여부
+ * @property hp           HP (시스템이 제공할 때)
+ */
+export type TokenSummary = {
+    id: string;
+    uuid: string;
+    name: string;
+    actorUuid: string | null;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    elevation: number;
+    disposition: -2 | -1 | 0 | 1;
+    hidden: boolean;
+    hp?: { value: number | null; max: number | null } | null;
+};
+
+export const SEARCH_DOCUMENT_TYPES = ['Actor', 'Item', 'JournalEntry', 'Scene', 'RollTable', 'Macro', 'Playlist'] as const;
+
+/**
+ * search 응답의 개별 결과.
+ *
+ * @property uuid          문서 UUID (컴펜디움이면 Compendium.*)
+ * @property name          문서 이름
+ * @property documentType  Actor, Item 등 문서 타입
+ * @property subType       시스템 하위 타입 (npc, weapon 등)
+ * @property pack          컴펜디움 팩 ID (월드 문서면 없음)
+ * @property img           썸네일 경로
+ * @property snippet       본문 일치 부분 발췌
+ * @property score         relay 측 랭킹 점수
+ */
+export type WorldSearchResult = {
+    uuid: string;
+    name: string;
+    documentType: string;
+    subType?: string;
+    pack?: string | null;
+    img?: string | null;
+    snippet?: string;
+    score: number;
+};
+
+export type WorldSearchPage = {
+    query: string;
+    total: number;
+    offset: number;
+    limit: number;
+    nextOffset: number | null;
+    results: WorldSearchResult[];
+};
+
+/**
+ * Scores a search hit: exact name > name prefix > word match > substring > all terms in name > text-only hit.
+ * @param query Normalized (lower-case, trimmed) query.
+ * @param hit Raw search result.
+ * @returns Ranking score, higher is better.
+ */
+function scoreResult(query: string, hit: any): number {
+    const name = String(hit?.name ?? '').toLowerCase();
+    const terms = query.split(/\s+/).filter(Boolean);
+    let score = 10;
+
+    if (name === query) score = 100;
+    else if (name.startsWith(query)) score = 80;
+    else if (new RegExp(`\\b${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`).test(name)) score = 65;
+    else if (name.includes(query)) score = 50;
+    else if (terms.length > 1 && terms.every(term => name.includes(term))) score = 40;
+    else if (String(hit?.snippet ?? hit?.text ?? '').toLowerCase().includes(query)) score = 25;
+
+    // 같은 점수면 컴펜디움보다 월드 문서를 우선
+    return hit?.pack ? score - 1 : score;
+}
 
 export function registerSearchTools(server: McpServer): void {
+    const worldSearchArgs = {
+        ...baseArgs,
+        query: z.string().min(1).describe('Name or text to search for'),
+        types: z.array(z.enum(SEARCH_DOCUMENT_TYPES)).optional().describe('Limit results to these document types'),
+        includeCompendia: z.boolean().optional().default(false).describe('Also search compendium pack indexes'),
+        offset: z.number().int().nonnegative().optional().default(0),
+        limit: z.number().int().positive().max(50).optional().default(10),
+    };
+
     server.registerTool(
         'search-tokens',
         {
@@ -31,7 +128,80 @@ export function registerSearchTools(server: McpServer): void {
                 const output = {
                     clientId: response.clientId,
                     requestId: response.requestId,
-                    data: response.data
+                    data: response.data as TokenSummary[]
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'search-world',
+        {
+            title: 'Search World Documents',
+            description: 'Search actors, items, journals, scenes and optionally compendia by name or text, ranked by relevance with pagination',
+            inputSchema: worldSearchArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe world search',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, query, types, includeCompendia, offset, limit } = args;
+            const normalizedQuery = query.trim().toLowerCase();
+            const payload: Record<string, any> = { query, includeCompendia };
+            if (types?.length) payload.filter = types.join(',');
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'search',
+                    clientId,
+                    payload,
+                });
+
+                const rawResults: any[] = Array.isArray(response.data)
+                    ? response.data
+                    : Array.isArray(response.data?.results) ? response.data.results : [];
+
+                const ranked: WorldSearchResult[] = rawResults
+                    .filter(hit => !types?.length || (types as readonly string[]).includes(hit?.documentType))
+                    .filter(hit => includeCompendia || !hit?.pack)
+                    .map(hit => ({
+                        uuid: hit.uuid,
+                        name: hit.name,
+                        documentType: hit.documentType,
+                        subType: hit.subType ?? hit.type,
+                        pack: hit.pack ?? null,
+                        img: hit.img ?? null,
+                        snippet: hit.snippet,
+                        score: scoreResult(normalizedQuery, hit),
+                    }))
+                    .sort((a, b) => b.score - a.score || String(a.name).localeCompare(String(b.name)));
+
+                const start = offset ?? 0;
+                const pageSize = limit ?? 10;
+                const page: WorldSearchPage = {
+                    query,
+                    total: ranked.length,
+                    offset: start,
+                    limit: pageSize,
+                    nextOffset: start + pageSize < ranked.length ? start + pageSize : null,
+                    results: ranked.slice(start, start + pageSize),
+                };
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: page
                 };
 
                 return {
@@ -0,0 +1,320 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { resolveClient, sendClientRequest } from '../route-helpers.js';
+import { TokenSummary } from './search.js';
+import { SceneDescription, toCanvasPosition, toGridCell } from './scenes.js';
+import { z } from 'zod';
+
+/** CONST.TOKEN_DISPOSITIONS */
+export const TOKEN_DISPOSITIONS = {
+    SECRET: -2,
+    HOSTILE: -1,
+    NEUTRAL: 0,
+    FRIENDLY: 1,
+} as const;
+
+export type TokenSelectionResult = {
+    mode: 'select' | 'target';
+    tokens: TokenSummary[];
+};
+
+/** 한 번의 호출로 이동할 수 있는 최대 토큰 수 */
+const MAX_TOKENS_PER_MOVE = 10;
+const MAX_WAYPOINTS = 20;
+
+type GridCell = { col: number; row: number };
+
+/**
+ * Throws when a token of the given footprint placed at `cell` would extend beyond the scene grid.
+ * @param scene Scene dimensions returned by scene-describe.
+ * @param cell Top-left grid cell.
+ * @param footprint Token size in grid squares.
+ * @param label Identifier used in the error message.
+ */
+function assertInsideScene(scene: SceneDescription, cell: GridCell, footprint: { width: number; height: number }, label: string): void {
+    const columns = Math.floor(scene.width / (scene.grid.size || 1));
+    const rows = Math.floor(scene.height / (scene.grid.size || 1));
+    if (
+        cell.col < 0 || cell.row < 0 ||
+        cell.col + Math.ceil(footprint.width) > columns ||
+        cell.row + Math.ceil(footprint.height) > rows
+    ) {
+        throw new Error(`${label}: (${cell.col}, ${cell.row}) is outside the ${columns}x${rows} scene grid`);
+    }
+}
+
+export function registerTokenTools(server: McpServer): void {
+    const selectedArgs = {
+        ...baseArgs,
+        mode: z.enum(['select', 'target']).optional().default('select').describe('Controlled tokens or user targets'),
+    };
+
+    const selectArgs = {
+        ...baseArgs,
+        mode: z.enum(['select', 'target']).optional().default('select').describe('Control the tokens or set them as targets'),
+        tokenIds: z.array(z.string()).optional(),
+        names: z.array(z.string()).optional().describe('Token names (case-insensitive)'),
+        disposition: z.enum(['SECRET', 'HOSTILE', 'NEUTRAL', 'FRIENDLY']).optional(),
+        area: z.object({
+            x: z.number(),
+            y: z.number(),
+            width: z.number().positive(),
+            height: z.number().positive(),
+        }).optional().describe('Rectangle in scene pixels; tokens whose center lies inside are matched'),
+        releaseOthers: z.boolean().optional().default(true).describe('Clear the current selection/targets first'),
+    };
+
+    const gridCell = z.object({
+        col: z.number().int(),
+        row: z.number().int(),
+    });
+
+    const moveArgs = {
+        ...baseArgs,
+        sceneId: z.string().optional().describe('Defaults to the active scene'),
+        moves: z.array(z.object({
+            tokenId: z.string(),
+            to: gridCell.optional().describe('Absolute grid cell (0-based from the scene top-left)'),
+            offset: z.object({
+                dx: z.number().int(),
+                dy: z.number().int(),
+            }).optional().describe('Relative move in grid squares'),
+            waypoints: z.array(gridCell).nonempty().max(MAX_WAYPOINTS).optional().describe('Grid cells to animate through in order'),
+        })).nonempty().max(MAX_TOKENS_PER_MOVE),
+        animate: z.boolean().optional().default(true),
+    };
+
+    const placeArgs = {
+        ...baseArgs,
+        sceneId: z.string().optional().describe('Defaults to the active scene'),
+        actorUuid: z.string(),
+        at: gridCell.describe('Grid cell (0-based from the scene top-left)'),
+        name: z.string().optional().describe('Overrides the prototype token name'),
+        hidden: z.boolean().optional().default(false),
+    };
+
+    server.registerTool(
+        'token-selected',
+        {
+            title: 'Get Selected Tokens',
+            description: 'Fetch the tokens currently selected (or targeted) by the GM on the active scene',
+            inputSchema: selectedArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe token selection',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, mode } = args;
+            const payload: Record<string, any> = { mode };
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'selected',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: { mode, tokens: response.data ?? [] } as TokenSelectionResult
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'token-select',
+        {
+            title: 'Select or Target Tokens',
+            description: 'Select or target tokens on the active scene by ID, name, disposition or area and return the resulting set',
+            inputSchema: selectArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Token selection',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, mode, tokenIds, names, disposition, area, releaseOthers } = args;
+            if (!tokenIds?.length && !names?.length && !disposition && !area) {
+                return formatToolError(new Error('Provide at least one of tokenIds, names, disposition or area'), clientId);
+            }
+
+            const criteria: Record<string, any> = {};
+            if (tokenIds?.length) criteria.tokenIds = tokenIds;
+            if (names?.length) criteria.names = names;
+            if (disposition) criteria.disposition = TOKEN_DISPOSITIONS[disposition];
+            if (area) criteria.area = area;
+            const payload: Record<string, any> = { mode, criteria, releaseOthers };
+
+            try {
+                const response = await sendClientRequest({
+                    type: 'select',
+                    clientId,
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: { mode, tokens: response.data ?? [] } as TokenSelectionResult
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'token-move',
+        {
+            title: 'Move Tokens',
+            description: `Move up to ${MAX_TOKENS_PER_MOVE} tokens to grid cells, by relative offsets, or along a path of waypoints`,
+            inputSchema: moveArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Token movement',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, sceneId, moves, animate } = args;
+
+            try {
+                const client = await resolveClient(clientId);
+                const sceneResponse = await sendClientRequest({
+                    type: 'scene-describe',
+                    clientId: client.getId(),
+                    payload: sceneId ? { sceneId } : {},
+                });
+                const scene = sceneResponse.data as SceneDescription;
+
+                const resolvedMoves = moves.map(move => {
+                    const targets = [move.to, move.offset, move.waypoints].filter(value => value !== undefined);
+                    if (targets.length !== 1) {
+                        throw new Error(`${move.tokenId}: provide exactly one of to, offset or waypoints`);
+                    }
+
+                    const token = scene.tokens.find(candidate => candidate.id === move.tokenId || candidate.uuid === move.tokenId);
+                    if (!token) {
+                        throw new Error(`${move.tokenId}: token not found on scene ${scene.name}`);
+                    }
+
+                    let path: GridCell[];
+                    if (move.waypoints) {
+                        path = move.waypoints;
+                    } else if (move.offset) {
+                        const current = toGridCell(scene, token);
+                        path = [{ col: current.col + move.offset.dx, row: current.row + move.offset.dy }];
+                    } else {
+                        path = [move.to!];
+                    }
+
+                    path.forEach((cell, index) => assertInsideScene(scene, cell, token, `${token.name} waypoint ${index + 1}`));
+                    return {
+                        tokenId: token.id,
+                        path: path.map(cell => toCanvasPosition(scene, cell)),
+                    };
+                });
+
+                const response = await sendClientRequest({
+                    type: 'token-move',
+                    clientId: client.getId(),
+                    payload: { sceneId: scene.id, moves: resolvedMoves, animate },
+                    timeout: 30000,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as TokenSummary[]
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'token-place',
+        {
+            title: 'Place Token from Actor',
+            description: 'Create a token for an actor at a grid cell on the scene',
+            inputSchema: placeArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Token placement',
+                readOnlyHint: false,
+                destructiveHint: false,
+                idempotentHint: false
+            }
+        },
+        async (args) => {
+            const { clientId, sceneId, actorUuid, at, name, hidden } = args;
+
+            try {
+                const client = await resolveClient(clientId);
+                const sceneResponse = await sendClientRequest({
+                    type: 'scene-describe',
+                    clientId: client.getId(),
+                    payload: sceneId ? { sceneId } : {},
+                });
+                const scene = sceneResponse.data as SceneDescription;
+                assertInsideScene(scene, at, { width: 1, height: 1 }, actorUuid);
+
+                const payload: Record<string, any> = {
+                    sceneId: scene.id,
+                    actorUuid,
+                    hidden,
+                    ...toCanvasPosition(scene, at),
+                };
+                if (name) payload.name = name;
+
+                const response = await sendClientRequest({
+                    type: 'token-place',
+                    clientId: client.getId(),
+                    payload,
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: response.data as TokenSummary
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
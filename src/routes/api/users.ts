@@ -0,0 +1,182 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { baseArgs, FIX_outputArgs, formatToolError } from './common.js';
+import { resolveClient, sendClientRequest } from '../route-helpers.js';
+import { JournalOwnership } from './journal.js';
+import { z } from 'zod';
+
+/** CONST.DOCUMENT_OWNERSHIP_LEVELS */
+export const OWNERSHIP_LEVELS = {
+    INHERIT: -1,
+    NONE: 0,
+    LIMITED: 1,
+    OBSERVER: 2,
+    OWNER: 3,
+} as const;
+export type OwnershipLevelName = keyof typeof OWNERSHIP_LEVELS;
+
+/** CONST.USER_ROLES */
+const USER_ROLE_NAMES: Record<number, string> = {
+    0: 'NONE',
+    1: 'PLAYER',
+    2: 'TRUSTED',
+    3: 'ASSISTANT',
+    4: 'GAMEMASTER',
+};
+
+/**
+ * Foundry 사용자 요약.
+ *
+ * @property id         User ID
+ * @property name       사용자 이름
+ * @property role       CONST.USER_ROLES 값
+ * @property roleName   role의 이름 (PLAYER, GAMEMASTER 등)
+ * @property active     현재 접속 중 여부
+ * @property character  배정된 캐릭터 (없으면 null)
+ */
+export type UserSummary = {
+    id: string;
+    name: string;
+    role: number;
+    roleName: string;
+    active: boolean;
+    character: { uuid: string; name: string } | null;
+};
+
+/**
+ * Fetches all users from the client and normalizes them into UserSummary entries.
+ */
+export async function fetchUsers(clientId: string): Promise<{ response: Record<string, any>; users: UserSummary[] }> {
+    const response = await sendClientRequest({
+        type: 'user-list',
+        clientId,
+        payload: {},
+    });
+    const rawUsers: any[] = Array.isArray(response.data) ? response.data : [];
+    const users = rawUsers.map(user => ({
+        id: user.id ?? user._id,
+        name: user.name,
+        role: user.role,
+        roleName: USER_ROLE_NAMES[user.role] ?? 'UNKNOWN',
+        active: Boolean(user.active),
+        character: user.character ?? null,
+    }));
+    return { response, users };
+}
+
+export function registerUserTools(server: McpServer): void {
+    const levelEnum = z.enum(Object.keys(OWNERSHIP_LEVELS) as [OwnershipLevelName, ...OwnershipLevelName[]]);
+
+    const listArgs = {
+        ...baseArgs,
+        onlineOnly: z.boolean().optional().default(false),
+    };
+
+    const ownershipArgs = {
+        ...baseArgs,
+        uuid: z.string().describe('Document UUID (JournalEntry, Actor, Scene, ...)'),
+        defaultLevel: levelEnum.optional().describe('Permission for all players without an explicit entry'),
+        users: z.array(z.object({
+            user: z.string().describe('User name or ID'),
+            level: levelEnum,
+        })).optional(),
+    };
+
+    server.registerTool(
+        'user-list',
+        {
+            title: 'Get Users',
+            description: 'Fetch Foundry users with role, assigned character and online status',
+            inputSchema: listArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Safe user list',
+                readOnlyHint: true,
+                destructiveHint: false,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, onlineOnly } = args;
+
+            try {
+                const { response, users } = await fetchUsers((await resolveClient(clientId)).getId());
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: onlineOnly ? users.filter(user => user.active) : users
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+
+    server.registerTool(
+        'set-ownership',
+        {
+            title: 'Set Document Ownership',
+            description: 'Set default and per-user ownership on a document using NONE/LIMITED/OBSERVER/OWNER (INHERIT for folder defaults)',
+            inputSchema: ownershipArgs,
+            outputSchema: FIX_outputArgs,
+            annotations: {
+                title: 'Ownership mutation',
+                readOnlyHint: false,
+                destructiveHint: true,
+                idempotentHint: true
+            }
+        },
+        async (args) => {
+            const { clientId, uuid, defaultLevel, users } = args;
+            if (!defaultLevel && !users?.length) {
+                return formatToolError(new Error('Provide defaultLevel and/or users'), clientId);
+            }
+
+            try {
+                const client = await resolveClient(clientId);
+                const ownership: JournalOwnership = {};
+                if (defaultLevel) ownership.default = OWNERSHIP_LEVELS[defaultLevel];
+
+                if (users?.length) {
+                    const { users: knownUsers } = await fetchUsers(client.getId());
+                    for (const entry of users) {
+                        const needle = entry.user.toLowerCase();
+                        const user = knownUsers.find(candidate => candidate.id === entry.user)
+                            ?? knownUsers.find(candidate => candidate.name.toLowerCase() === needle);
+                        if (!user) {
+                            throw {
+                                error: `Unknown user: ${entry.user}`,
+                                users: knownUsers.map(candidate => ({ id: candidate.id, name: candidate.name })),
+                            };
+                        }
+                        ownership[user.id] = OWNERSHIP_LEVELS[entry.level];
+                    }
+                }
+
+                const response = await sendClientRequest({
+                    type: 'set-ownership',
+                    clientId: client.getId(),
+                    payload: { uuid, ownership },
+                });
+
+                const output = {
+                    clientId: response.clientId,
+                    requestId: response.requestId,
+                    data: { uuid, ownership: (response.data?.ownership ?? ownership) as JournalOwnership }
+                };
+
+                return {
+                    content: [{ type: 'text', text: 'Success' }],
+                    structuredContent: output
+                };
+            } catch (err) {
+                return formatToolError(err, clientId);
+            }
+        },
+    );
+}
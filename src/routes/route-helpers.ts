@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
 import { ClientManager } from '../core/ClientManager.js';
+import { Client, describeClient } from '../core/Client.js';
+import { cfg } from '../config.js';
 import { pendingRequests, safeResponse, PendingRequest, PendingRequestType, PENDING_REQUEST_TYPES } from './shared.js';
 import { log } from '../utils/logger.js';
 
@@ -196,11 +199,59 @@ export function createApiRoute(config: ApiRouteConfig) {
   };
 }
 
+/**
+ * Resolves the Foundry client an MCP tool call should target.
+ * Accepts a client ID, world ID, world title or custom name. When omitted, the sole
+ * connected client is selected; several candidates produce a structured "ambiguous client" error.
+ *
+ * @param clientId - Optional client identifier supplied by the caller.
+ * @returns The resolved live client.
+ */
+export async function resolveClient(clientId?: string): Promise<Client> {
+  const apiKey = cfg.API_KEY ?? '';
+
+  if (clientId) {
+    const client = await ClientManager.getClient(clientId);
+    if (client) {
+      return client;
+    }
+
+    const matches = await ClientManager.findClientsByName(apiKey, clientId);
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    if (matches.length > 1) {
+      throw {
+        error: `Ambiguous client: ${matches.length} connected worlds match '${clientId}'. Retry with one of the candidate clientIds.`,
+        candidates: matches.map(describeClient),
+      };
+    }
+    throw new Error('Invalid client ID');
+  }
+
+  const ids = await ClientManager.getConnectedClients(apiKey);
+  const clients = (await Promise.all(ids.map(id => ClientManager.getClient(id))))
+    .filter((client): client is Client => client !== null);
+
+  if (clients.length === 0) {
+    throw new Error('No Foundry client is connected');
+  }
+  if (clients.length > 1) {
+    throw {
+      error: `Ambiguous client: ${clients.length} worlds are connected. Retry with one of the candidate clientIds.`,
+      candidates: clients.map(describeClient),
+    };
+  }
+  return clients[0];
+}
+
 interface ClientRequestOptions {
   type: PendingRequestType | string;
-  clientId: string;
+  clientId?: string;
   payload?: Record<string, any>;
   timeout?: number;
+  /** Resolve as soon as the message is written to the socket instead of waiting for the `-result` reply */
+  fireAndForget?: boolean;
 }
 
 /**
@@ -212,23 +263,24 @@ export async function sendClientRequest({
   clientId,
   payload = {},
   timeout = 10000,
+  fireAndForget = false,
 }: ClientRequestOptions): Promise<Record<string, any>> {
-  const client = await ClientManager.getClient(clientId);
-  if (!client) {
-    throw new Error('Invalid client ID');
-  }
+  const client = await resolveClient(clientId);
+  const resolvedClientId = client.getId();
 
-  const requestId = `${type}_${Date.now()}`;
+  // 같은 타입을 연속/배치로 보낼 때 ID가 겹치지 않도록 난수 접미사를 붙인다
+  const requestId = `${type}_${Date.now()}_${randomUUID().slice(0, 8)}`;
   const timestamp = Date.now();
 
-  const isPendingType = (PENDING_REQUEST_TYPES as readonly string[]).includes(type);
+  const isPendingType = !fireAndForget && (PENDING_REQUEST_TYPES as readonly string[]).includes(type);
 
   return await new Promise((resolve, reject) => {
     if (isPendingType) {
       pendingRequests.set(requestId, {
         type,
-        clientId,
+        clientId: resolvedClientId,
         timestamp,
+        timeout,
         resolve,
         reject,
       });
@@ -251,7 +303,7 @@ export async function sendClientRequest({
     if (!isPendingType) {
       resolve({
         requestId,
-        clientId,
+        clientId: resolvedClientId,
         data: 'success',
         payload,
       });
@@ -50,7 +50,13 @@ export const PENDING_REQUEST_TYPES = [
     'select', 'selected', 'file-system', 'upload-file', 'download-file',
     'get-actor-details', 'modify-item-charges', 'use-ability', 'use-feature', 'use-spell', 'use-item', 'modify-experience', 'add-item', 'remove-item',
     'get-folder', 'create-folder', 'delete-folder',
-    'chat-logs', 'search-tokens', 'journal-list', 'journal-page-list', 'journal-page'
+    'chat-logs', 'chat-message', 'chat-bubbles', 'search-tokens', 'journal-list', 'journal-page-list', 'journal-page',
+    'scene-list', 'scene-activate', 'scene-describe', 'token-move', 'token-place',
+    'playlist-list', 'playlist-control', 'play-sound',
+    'rolltable-list', 'rolltable-draw', 'rolltable-create',
+    'compendium-list', 'compendium-index', 'compendium-entry', 'compendium-import',
+    'effect-list', 'effect-toggle-status', 'effect-create', 'effect-delete',
+    'user-list', 'set-ownership'
 ] as const;
   
 export type PendingRequestType = typeof PENDING_REQUEST_TYPES[number];
@@ -66,6 +72,7 @@ export interface PendingRequest {
     query?: string;
     filter?: string;
     timestamp: number;
+    timeout?: number;
     format?: string;
     initialScale?: number | null;
     activeTab?: number | null;
@@ -2,6 +2,7 @@
 import { WebSocketServer, WebSocket } from "ws";
 import { log } from "../utils/logger.js";
 import { ClientManager } from "../core/ClientManager.js";
+import { EventHub } from "../core/EventHub.js";
 // import { validateHeadlessSession } from "../workers/headlessSessions";
 import { cfg } from '../config.js';
 
@@ -86,6 +87,7 @@ export const wsRoutes = (wss: WebSocketServer): void => {
   // Set up periodic cleanup
   setInterval(() => {
     ClientManager.cleanupInactiveClients();
+    EventHub.cleanupExpiredSubscriptions();
   }, CLIENT_CLEANUP_INTERVAL_MS); // Use configured interval
 };
 
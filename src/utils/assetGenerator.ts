@@ -56,43 +56,64 @@ function normalizeUri(rawUrl: string, base = cfg.BASE_URL): string {
 }
 
 /**
- * Generates TTS audio for the given message and returns a public URL to the saved file.
- * Uses streaming responses to assemble the final audio buffer before writing to disk.
- * @param message Text content to synthesize.
- * @returns Absolute URL string for the generated audio, or empty string on failure.
+ * 대사 한 줄. speaker는 speakers 매핑의 키와 같아야 한다.
+ *
+ * @property speaker    화자 이름
+ * @property text       읽을 대사
+ * @property styleTone  이 줄의 말투 (없으면 Normal)
  */
-export async function createAudioTTS(message: string, temperature: number, styleTone: StyleTone, voiceActor: VoiceActor): Promise<string> {
-    let fileURL = '';
+export type DialogueLine = {
+    speaker: string;
+    text: string;
+    styleTone?: StyleTone;
+};
 
-    let conversionStyleTone: string = styleTone;
+/**
+ * Builds the reading instruction prepended to the text for a style tone.
+ * @param styleTone Tone to read the line in.
+ * @returns Instruction prefix ending with a colon.
+ */
+function styleInstruction(styleTone: StyleTone): string {
     // 'Hitomi' 스타일은 별도 처리
     switch (styleTone) {
         case StyleTone.Hitomi:
-            conversionStyleTone = 'Read aloud in a breathlessly rising, as if lifting something overwhelmingly heavy tone:';
-            break;
+            return 'Read aloud in a breathlessly rising, as if lifting something overwhelmingly heavy tone:';
         default:
-            conversionStyleTone = `Read aloud in ${styleTone} tone:`;
-            break;
+            return `Read aloud in ${styleTone} tone:`;
     }
+}
 
-    const genAI = getGenAI();
-    if (!genAI) {
-        log.info('Google GenAI client is not initialized.');
-        return fileURL;
-    }
+/**
+ * Builds the inline tone hint for a line of a multi-speaker script.
+ * @param styleTone Tone of the line; Normal adds no hint.
+ * @returns Parenthesized hint followed by a space, or empty string.
+ */
+function toneHint(styleTone: StyleTone | undefined): string {
+    if (!styleTone || styleTone === StyleTone.Normal) return '';
+    const tone = styleTone === StyleTone.Hitomi ? 'a breathlessly rising' : styleTone;
+    return `(in ${tone} tone) `;
+}
 
+/**
+ * Streams a TTS response and concatenates its audio chunks.
+ * @param genAI Initialized GoogleGenAI client.
+ * @param text Full prompt text, including style instructions.
+ * @param temperature Sampling temperature.
+ * @param speechConfig Gemini speech config (single or multi-speaker voice).
+ * @returns Raw audio and its mime type, or null when no audio was returned.
+ */
+async function synthesizeSpeech(
+    genAI: GoogleGenAI,
+    text: string,
+    temperature: number,
+    speechConfig: Record<string, any>,
+): Promise<{ data: Buffer; mimeType: string } | null> {
     const config = {
         temperature: temperature,
         responseModalities: [
             'audio',
         ],
-        speechConfig: {
-            voiceConfig: {
-                prebuiltVoiceConfig: {
-                    voiceName: voiceActor,
-                }
-            }
-        },
+        speechConfig,
     };
     const model = cfg.AUDIO_MODEL;
     const contents = [
@@ -100,7 +121,7 @@ export async function createAudioTTS(message: string, temperature: number, style
             role: 'user',
             parts: [
                 {
-                    text: `${conversionStyleTone} ${message}`,
+                    text,
                 },
             ],
         },
@@ -112,7 +133,6 @@ export async function createAudioTTS(message: string, temperature: number, style
         contents,
     });
 
-    const filePath = crypto.randomUUID();
     const collectedBuffers: Buffer[] = [];
     let collectedMimeType = '';
 
@@ -134,23 +154,24 @@ export async function createAudioTTS(message: string, temperature: number, style
 
     if (!collectedBuffers.length) {
         log.error('failed to collect audio data from TTS response');
-        return fileURL;
+        return null;
     }
 
-    const combinedBuffer = Buffer.concat(collectedBuffers);
-    let fileExtension = mime.getExtension(collectedMimeType || '');
-    let fileData: Buffer<ArrayBufferLike> = combinedBuffer;
-
-    if (!fileExtension) {
-        fileExtension = 'wav';
-        fileData = convertToWav(combinedBuffer.toString('base64'), collectedMimeType || '');
-    }
+    return { data: Buffer.concat(collectedBuffers), mimeType: collectedMimeType };
+}
 
-    const fileName = `${filePath}.${fileExtension}`;
+/**
+ * Writes an audio file into the audio output directory.
+ * @param fileData Encoded audio file content.
+ * @param fileExtension Extension without the dot.
+ * @returns Public URL (or Foundry data path) of the saved file.
+ */
+function saveAudioFile(fileData: Buffer, fileExtension: string): string {
+    const fileName = `${crypto.randomUUID()}.${fileExtension}`;
     const audioDir = path.join(process.cwd(), cfg.FOUNDRY_DATA_PATH, cfg.AUDIO_OUTPUT_DIR);
 
     saveBinaryFile(`${audioDir}/${fileName}`, fileData);
-    fileURL = cfg.FOUNDRY_DATA_PATH === ''
+    const fileURL = cfg.FOUNDRY_DATA_PATH === ''
         ? normalizeUri(`${cfg.AUDIO_PATH}/${fileName}`)
         : path.join(cfg.AUDIO_OUTPUT_DIR, fileName);
     log.info(`Audio TTS file saved: ${fileURL}`);
@@ -158,6 +179,126 @@ export async function createAudioTTS(message: string, temperature: number, style
     return fileURL;
 }
 
+/**
+ * Generates TTS audio for the given message and returns a public URL to the saved file.
+ * Uses streaming responses to assemble the final audio buffer before writing to disk.
+ * @param message Text content to synthesize.
+ * @returns Absolute URL string for the generated audio, or empty string on failure.
+ */
+export async function createAudioTTS(message: string, temperature: number, styleTone: StyleTone, voiceActor: VoiceActor): Promise<string> {
+    const genAI = getGenAI();
+    if (!genAI) {
+        log.info('Google GenAI client is not initialized.');
+        return '';
+    }
+
+    const audio = await synthesizeSpeech(genAI, `${styleInstruction(styleTone)} ${message}`, temperature, {
+        voiceConfig: {
+            prebuiltVoiceConfig: {
+                voiceName: voiceActor,
+            }
+        }
+    });
+    if (!audio) {
+        return '';
+    }
+
+    let fileExtension = mime.getExtension(audio.mimeType || '');
+    let fileData: Buffer<ArrayBufferLike> = audio.data;
+
+    if (!fileExtension) {
+        fileExtension = 'wav';
+        fileData = convertToWav(audio.data.toString('base64'), audio.mimeType || '');
+    }
+
+    return saveAudioFile(fileData, fileExtension);
+}
+
+/**
+ * Generates one audio file for a multi-speaker dialogue.
+ * With exactly two speakers and no gaps, Gemini's multi-speaker config renders the whole script in one call;
+ * otherwise each line is synthesized as raw PCM and concatenated with silence between lines.
+ * @param lines Script lines in reading order.
+ * @param voices Speaker name to voice mapping; every line speaker must be present.
+ * @param temperature Sampling temperature.
+ * @param gapMs Silence inserted between lines, in milliseconds.
+ * @returns Absolute URL string for the generated audio, or empty string on failure.
+ */
+export async function createDialogueTTS(
+    lines: DialogueLine[],
+    voices: Map<string, VoiceActor>,
+    temperature: number,
+    gapMs: number,
+): Promise<string> {
+    const genAI = getGenAI();
+    if (!genAI) {
+        log.info('Google GenAI client is not initialized.');
+        return '';
+    }
+
+    const speakers = [...new Set(lines.map(line => line.speaker))];
+    const segments: { data: Buffer; options: WavConversionOptions }[] = [];
+    // 직접 WAV 헤더를 붙이므로 컨테이너 포맷(mime 확장자가 있는 응답)은 받지 않는다
+    const pushPcm = (audio: { data: Buffer; mimeType: string }): boolean => {
+        if (mime.getExtension(audio.mimeType || '')) {
+            log.error(`Dialogue TTS expects raw PCM audio, got ${audio.mimeType}`);
+            return false;
+        }
+        segments.push({ data: audio.data, options: parseMimeType(audio.mimeType) });
+        return true;
+    };
+
+    if (speakers.length === 2 && gapMs === 0) {
+        const script = lines
+            .map(line => `${line.speaker}: ${toneHint(line.styleTone)}${line.text}`)
+            .join('\n');
+        const audio = await synthesizeSpeech(genAI, `TTS the following conversation between ${speakers.join(' and ')}:\n${script}`, temperature, {
+            multiSpeakerVoiceConfig: {
+                speakerVoiceConfigs: speakers.map(speaker => ({
+                    speaker,
+                    voiceConfig: {
+                        prebuiltVoiceConfig: {
+                            voiceName: voices.get(speaker),
+                        }
+                    }
+                })),
+            }
+        });
+        if (!audio || !pushPcm(audio)) {
+            return '';
+        }
+    } else {
+        // 줄마다 따로 합성해 PCM 그대로 이어 붙이므로 모든 줄이 같은 포맷이어야 한다
+        for (const line of lines) {
+            const audio = await synthesizeSpeech(genAI, `${styleInstruction(line.styleTone ?? StyleTone.Normal)} ${line.text}`, temperature, {
+                voiceConfig: {
+                    prebuiltVoiceConfig: {
+                        voiceName: voices.get(line.speaker),
+                    }
+                }
+            });
+            if (!audio || !pushPcm(audio)) {
+                return '';
+            }
+        }
+    }
+
+    const options = segments[0].options;
+    if (segments.some(segment =>
+        segment.options.sampleRate !== options.sampleRate || segment.options.bitsPerSample !== options.bitsPerSample)) {
+        log.error('Dialogue TTS lines returned mismatched PCM formats');
+        return '';
+    }
+
+    const bytesPerMs = options.sampleRate * options.numChannels * options.bitsPerSample / 8 / 1000;
+    // 샘플 경계가 어긋나지 않도록 블록 크기 단위로 맞춘다
+    const blockAlign = options.numChannels * options.bitsPerSample / 8;
+    const silence = Buffer.alloc(Math.round(bytesPerMs * gapMs / blockAlign) * blockAlign);
+    const pcm = Buffer.concat(segments.flatMap((segment, index) => index === 0 ? [segment.data] : [silence, segment.data]));
+
+    return saveAudioFile(Buffer.concat([createWavHeader(pcm.length, options), pcm]), 'wav');
+}
+
 interface WavConversionOptions {
     numChannels: number,
     sampleRate: number,
@@ -0,0 +1,33 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { log } from './logger.js';
+
+export interface AuditRecord {
+    timestamp: string;
+    action: string;
+    caller: string;
+    clientId: string;
+    requestId?: string;
+    outcome: 'attempt' | 'refused' | 'success' | 'error';
+    [key: string]: unknown;
+}
+
+/**
+ * Appends one JSON line to an audit log file, creating the directory on first use.
+ * Write failures are logged and rethrown so callers can refuse to act without an audit trail.
+ * @param filePath Audit log path, relative to the working directory or absolute.
+ * @param record Audit entry to persist.
+ */
+export async function appendAuditRecord(filePath: string, record: AuditRecord): Promise<void> {
+    const target = path.resolve(process.cwd(), filePath);
+    try {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.appendFile(target, `${JSON.stringify(record)}\n`, { encoding: 'utf8', flag: 'a' });
+    } catch (err) {
+        log.error(`Failed to write audit record to ${target}`, {
+            message: err instanceof Error ? err.message : String(err),
+            action: record.action,
+        });
+        throw err;
+    }
+}
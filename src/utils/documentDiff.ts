@@ -0,0 +1,72 @@
+/**
+ * A single field change between the current document and an update patch.
+ * `after` is undefined when the patch removes the key (Foundry `-=key` syntax).
+ */
+export interface DocumentChange {
+    path: string;
+    before: unknown;
+    after: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flattens a nested object into dot-notation keys, mirroring Foundry's `flattenObject`.
+ * Arrays and primitives are treated as leaf values.
+ * @param obj Object to flatten.
+ * @param prefix Key prefix used during recursion.
+ * @returns Map of dotted path to leaf value.
+ */
+export function flattenObject(obj: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+    const flat: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(obj)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (isPlainObject(value) && Object.keys(value).length > 0) {
+            Object.assign(flat, flattenObject(value, path));
+        } else {
+            flat[path] = value;
+        }
+    }
+    return flat;
+}
+
+function readPath(source: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (value, key) => (isPlainObject(value) ? value[key] : undefined),
+        source
+    );
+}
+
+/**
+ * Computes the field-level changes an update patch would apply to a document, using
+ * Foundry's merge semantics (nested keys merge, `-=key` deletes) without mutating either input.
+ * @param current Serialized source of the existing document.
+ * @param patch Update payload, nested or dot-notation.
+ * @returns Changed fields only; unchanged values in the patch are omitted.
+ */
+export function computeDocumentDiff(current: Record<string, unknown>, patch: Record<string, unknown>): DocumentChange[] {
+    const changes: DocumentChange[] = [];
+
+    for (const [path, after] of Object.entries(flattenObject(patch))) {
+        const segments = path.split('.');
+        const last = segments[segments.length - 1];
+
+        if (last.startsWith('-=')) {
+            const removedPath = [...segments.slice(0, -1), last.slice(2)].join('.');
+            const before = readPath(current, removedPath);
+            if (before !== undefined) {
+                changes.push({ path: removedPath, before, after: undefined });
+            }
+            continue;
+        }
+
+        const before = readPath(current, path);
+        if (JSON.stringify(before) !== JSON.stringify(after)) {
+            changes.push({ path, before, after });
+        }
+    }
+    return changes;
+}